@@ -1,19 +1,46 @@
-import React, { useState, useEffect, useMemo, memo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, memo } from 'react';
 import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { Transaction, CategoryDefinition, UserRole, PartnerNames, Goal, Category } from './types';
+import { Transaction, Settlement, RecurringTemplate, CategoryDefinition, UserRole, PartnerNames, PartnerProfiles, HouseholdSettings, CategorizationSettings, Goal, GoalContribution, Category, SettlementRules, Budgets } from './types';
 import { CATEGORY_COLORS, CATEGORY_ICONS } from './constants';
 import { Dashboard, TransactionList, AIAdvisor, SettingsView } from './components/Views';
+import { SettlementHistory } from './components/Settlements';
+import { RecurringView } from './components/Recurring';
+import { ImportView } from './components/ImportView';
+import { GoalsView } from './components/Goals';
+import { AnalyticsView } from './components/Analytics';
+import { TrashView } from './components/Trash';
+import { Toast } from './components/UI';
+import { AlertBanners } from './components/Alerts';
+import { normalizeTransaction, normalizeSettlement, normalizeRecurring, normalizeCategory, normalizeGoalContribution, normalizeSettlementRules, normalizePartnerProfiles, normalizeHousehold, normalizeCategorization, SyncAuth, performSync, mergeRecords, mergeBudgets, pickWinner, tombstone, untombstone } from './utils/sync';
+import { materializeDue, todayKey } from './utils/recurring';
+import { migrateLegacyGoals } from './utils/goals';
+import { BackupData, RestoreMode, applyRestore, normalizeSnapshots } from './utils/backup';
+import { aliasMap, remapTransactions, remapKeys, renameCategory, mergeCategories } from './utils/categories';
+import { DEFAULT_SETTLEMENT_RULES, effectiveRules } from './utils/settlement';
+import { deviceTimeZone } from './utils/period';
+import { DEFAULT_BASE_CURRENCY, withCurrencyDefaults } from './utils/currency';
+import { DEFAULT_CATEGORIZATION, remapRules } from './utils/categorize';
+import { CoachSession, EMPTY_COACH_SESSION } from './utils/coach';
+import { normalizeBudgets } from './utils/budgets';
+import { AlertLog, normalizeAlertLog, alertPreferences, evaluateAlerts, showSystemNotification } from './utils/alerts';
+import { Snapshot, SnapshotReason, pushSnapshot, rollbackTo } from './utils/snapshots';
+import { StoredState, persistRecords, persistValue } from './utils/storage';
+import { backendFor } from './utils/syncBackend';
+import { readChoice, readText } from './utils/fields';
+import { SyncQueue, SyncOutcome, SYNC_MESSAGE, readSyncQueue, isOfflineError, requestBackgroundSync } from './utils/offline';
 
 const DEFAULT_CATEGORIES: CategoryDefinition[] = Object.values(Category).map((catName, index) => ({
   id: String(index + 1),
   name: catName,
   color: CATEGORY_COLORS[catName] || '#94a3b8',
-  icon: CATEGORY_ICONS[catName] || '💰'
+  icon: CATEGORY_ICONS[catName] || '💰',
+  updatedAt: ''
 }));
 
-const PARTNER_NAMES: PartnerNames = {
-  [UserRole.PARTNER_1]: 'Tracy',
-  [UserRole.PARTNER_2]: 'Trish',
+const DEFAULT_PARTNER_PROFILES: PartnerProfiles = {
+  [UserRole.PARTNER_1]: { name: 'Tracy', color: '#6366f1', avatar: '🦊' },
+  [UserRole.PARTNER_2]: { name: 'Trish', color: '#f43f5e', avatar: '🐼' },
+  updatedAt: '',
 };
 
 const Navigation = memo(() => {
@@ -24,6 +51,7 @@ const Navigation = memo(() => {
       {[
         { path: '/', label: 'HOME', icon: '🏠' },
         { path: '/transactions', label: 'FEED', icon: '📜' },
+        { path: '/analytics', label: 'TRENDS', icon: '📊' },
         { path: '/ai', label: 'COACH', icon: '✨' },
         { path: '/settings', label: 'SETUP', icon: '⚙️' },
       ].map(item => (
@@ -36,37 +64,294 @@ const Navigation = memo(() => {
   );
 });
 
-const App: React.FC = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    const saved = localStorage.getItem('ds_tx');
-    return saved ? JSON.parse(saved) : [];
-  });
+// `initial` is what IndexedDB held at launch; see loadState in index.tsx
+const App: React.FC<{ initial: StoredState }> = ({ initial: { records, values } }) => {
+  const [transactions, setTransactions] = useState<Transaction[]>(() => (records.transactions || []).map(normalizeTransaction));
   
-  const [budgets, setBudgets] = useState<Record<string, number>>(() => {
-    const saved = localStorage.getItem('ds_budgets');
-    let b = saved ? JSON.parse(saved) : {};
-    
-    // Ensure all defined categories have at least a default budget
-    DEFAULT_CATEGORIES.forEach(c => {
-      if (b[c.name] === undefined) b[c.name] = 100;
-    });
-    return b;
-  });
+  const [settlements, setSettlements] = useState<Settlement[]>(() => (records.settlements || []).map(normalizeSettlement));
+  
+  const [recurring, setRecurring] = useState<RecurringTemplate[]>(() => (records.recurring || []).map(normalizeRecurring));
+  
+  const [categories, setCategories] = useState<CategoryDefinition[]>(() => records.categories ? records.categories.map(normalizeCategory) : DEFAULT_CATEGORIES);
+  
+  // Categories without an entry have no budget; nothing is filled in on their behalf
+  const [budgets, setBudgets] = useState<Budgets>(() => normalizeBudgets(values.budgets));
 
   const [goals, setGoals] = useState<Goal[]>(() => {
-    const saved = localStorage.getItem('ds_goals');
-    return saved ? JSON.parse(saved) : [{ id: '1', name: 'Emergency Fund', target: 5000, current: 0, icon: '🛡️' }];
+    return records.goals ? migrateLegacyGoals(records.goals).goals : [{ id: '1', name: 'Emergency Fund', target: 5000, icon: '🛡️', updatedAt: '' }];
   });
 
+  const [goalContributions, setGoalContributions] = useState<GoalContribution[]>(() => {
+    if (records.goalContributions) return records.goalContributions.map(normalizeGoalContribution);
+    // First run with contribution records: typed-in balances become opening contributions
+    return records.goals ? migrateLegacyGoals(records.goals).contributions : [];
+  });
+
+  const [settlementRules, setSettlementRules] = useState<SettlementRules>(() => normalizeSettlementRules(values.settlementRules, DEFAULT_SETTLEMENT_RULES));
+
+  const [partnerProfiles, setPartnerProfiles] = useState<PartnerProfiles>(() => normalizePartnerProfiles(values.partnerProfiles, DEFAULT_PARTNER_PROFILES));
+
+  // Until someone picks a zone, each phone uses its own (untimestamped, so any explicit choice wins on sync)
+  const [household, setHousehold] = useState<HouseholdSettings>(() => normalizeHousehold(values.household, { timeZone: deviceTimeZone(), baseCurrency: DEFAULT_BASE_CURRENCY, exchangeRates: [], updatedAt: '' }));
+
+  const [categorization, setCategorization] = useState<CategorizationSettings>(() => normalizeCategorization(values.categorization, DEFAULT_CATEGORIZATION));
+
+  // Anything a snapshot is missing is filled in from what was just loaded, so rolling back leaves it as it is
+  const [snapshots, setSnapshots] = useState<Snapshot[]>(() => normalizeSnapshots(values.snapshots, {
+    transactions: [], settlements: [], recurring: [], categories, goals, goalContributions: [], budgets, settlementRules, partnerProfiles, household, categorization,
+  }));
+
+  // Which partner uses this phone; device-local, so each partner gets their own alerts
+  const [devicePartner, setDevicePartner] = useState<UserRole | ''>(() => readChoice<UserRole | ''>(localStorage.getItem('ds_device_partner'), [UserRole.PARTNER_1, UserRole.PARTNER_2], ''));
+
+  const [alertLog, setAlertLog] = useState<AlertLog>(() => normalizeAlertLog(values.alertLog));
+
+  // DuoCoach tips and follow-ups last until the app is closed; never stored or synced
+  const [coachSession, setCoachSession] = useState<CoachSession>(EMPTY_COACH_SESSION);
+
+  const [toast, setToast] = useState<{ message: string; undo?: () => void } | null>(null);
+
   const [syncUrl, setSyncUrl] = useState(() => localStorage.getItem('ds_sync_url') || '');
+  // Typed into each phone; never synced or included in backups
+  const [syncAuth, setSyncAuth] = useState<SyncAuth>(() => ({
+    secret: localStorage.getItem('ds_household_secret') || '',
+    encrypt: localStorage.getItem('ds_encrypt_sync') === 'true',
+  }));
   const [lastSync, setLastSync] = useState(() => localStorage.getItem('ds_last_sync') || 'Never');
+  const [syncCursor, setSyncCursor] = useState<string>(() => readText(values.syncCursor));
+  // Set when a sync was asked for while offline; replayed once the connection is back
+  const [syncQueue, setSyncQueue] = useState<SyncQueue | null>(() => readSyncQueue(values.syncQueue));
 
-  useEffect(() => localStorage.setItem('ds_tx', JSON.stringify(transactions)), [transactions]);
-  useEffect(() => localStorage.setItem('ds_budgets', JSON.stringify(budgets)), [budgets]);
-  useEffect(() => localStorage.setItem('ds_goals', JSON.stringify(goals)), [goals]);
+  useEffect(() => persistRecords('transactions', transactions), [transactions]);
+  useEffect(() => persistRecords('settlements', settlements), [settlements]);
+  useEffect(() => persistRecords('recurring', recurring), [recurring]);
+  useEffect(() => persistRecords('categories', categories), [categories]);
+  useEffect(() => persistValue('budgets', budgets), [budgets]);
+  useEffect(() => persistRecords('goals', goals), [goals]);
+  useEffect(() => persistRecords('goalContributions', goalContributions), [goalContributions]);
+  useEffect(() => persistValue('settlementRules', settlementRules), [settlementRules]);
+  useEffect(() => persistValue('partnerProfiles', partnerProfiles), [partnerProfiles]);
+  useEffect(() => persistValue('household', household), [household]);
+  useEffect(() => persistValue('categorization', categorization), [categorization]);
+  useEffect(() => persistValue('snapshots', snapshots), [snapshots]);
+  useEffect(() => persistValue('alertLog', alertLog), [alertLog]);
+  useEffect(() => persistValue('syncCursor', syncCursor), [syncCursor]);
+  useEffect(() => persistValue('syncQueue', syncQueue), [syncQueue]);
+  // Small per-device settings stay in localStorage
+  useEffect(() => localStorage.setItem('ds_device_partner', devicePartner), [devicePartner]);
   useEffect(() => localStorage.setItem('ds_sync_url', syncUrl), [syncUrl]);
+  useEffect(() => {
+    localStorage.setItem('ds_household_secret', syncAuth.secret);
+    localStorage.setItem('ds_encrypt_sync', String(syncAuth.encrypt));
+  }, [syncAuth]);
   useEffect(() => localStorage.setItem('ds_last_sync', lastSync), [lastSync]);
 
+  // Tombstones stay in state so deletes can sync, but are hidden from every view
+  const activeTransactions = useMemo(() => transactions.filter(t => !t.deleted), [transactions]);
+  const activeSettlements = useMemo(() => settlements.filter(s => !s.deleted), [settlements]);
+  const activeRecurring = useMemo(() => recurring.filter(r => !r.deleted), [recurring]);
+  const activeGoals = useMemo(() => goals.filter(g => !g.deleted), [goals]);
+  const activeContributions = useMemo(() => goalContributions.filter(c => !c.deleted), [goalContributions]);
+
+  // A phone can stay open across midnight, so the day is checked again on return and once a minute
+  const [today, setToday] = useState(() => todayKey());
+  useEffect(() => {
+    const check = () => setToday(todayKey());
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('focus', check);
+    const timer = window.setInterval(check, 60 * 1000);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('focus', check);
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  // Log every recurring charge that has come due, on open, when the day turns and whenever templates change or sync in
+  useEffect(() => {
+    setTransactions(prev => {
+      const due = materializeDue(recurring, prev, today);
+      return due.length > 0 ? [...prev, ...due] : prev;
+    });
+  }, [recurring, today]);
+  // Archived categories still label history; pickers and budgets use only the active ones
+  const visibleCategories = useMemo(() => categories.filter(c => !c.deleted), [categories]);
+
+  const partnerNames = useMemo<PartnerNames>(() => ({
+    [UserRole.PARTNER_1]: partnerProfiles[UserRole.PARTNER_1].name,
+    [UserRole.PARTNER_2]: partnerProfiles[UserRole.PARTNER_2].name,
+  }), [partnerProfiles]);
+  const activeRules = useMemo(() => effectiveRules(settlementRules, partnerProfiles), [settlementRules, partnerProfiles]);
+
+  // Re-evaluated whenever an entry is added or a sync brings new data in
+  const alertPrefs = useMemo(() => alertPreferences(devicePartner ? partnerProfiles[devicePartner] : undefined), [devicePartner, partnerProfiles]);
+  const activeAlerts = useMemo(() => evaluateAlerts({
+    transactions: activeTransactions, settlements: activeSettlements, categories: visibleCategories, budgets, rules: activeRules, partnerNames, timeZone: household.timeZone, currency: household.baseCurrency,
+  }, alertPrefs), [activeTransactions, activeSettlements, visibleCategories, budgets, activeRules, partnerNames, household.timeZone, household.baseCurrency, alertPrefs]);
+  const visibleAlerts = useMemo(() => activeAlerts.filter(a => !alertLog.dismissed.includes(a.id)), [activeAlerts, alertLog.dismissed]);
+
+  useEffect(() => {
+    const ids = activeAlerts.map(a => a.id);
+    if (alertPrefs.notifications) {
+      activeAlerts.filter(a => !alertLog.notified.includes(a.id)).forEach(showSystemNotification);
+    }
+    // Forget alerts whose condition cleared, so they are raised again if it comes back
+    setAlertLog(prev => {
+      const dismissed = prev.dismissed.filter(id => ids.includes(id));
+      if (ids.length === prev.notified.length && ids.every(id => prev.notified.includes(id)) && dismissed.length === prev.dismissed.length) return prev;
+      return { notified: ids, dismissed };
+    });
+  }, [activeAlerts]);
+
+  const handleDismissAlert = (id: string) => setAlertLog(prev => ({ ...prev, dismissed: [...prev.dismissed, id] }));
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 6000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleRestoreTransaction = (id: string) => setTransactions(p => p.map(t => t.id === id ? untombstone(t) : t));
+  const handleDelete = (id: string) => {
+    const target = transactions.find(t => t.id === id);
+    setTransactions(p => p.map(t => t.id === id ? tombstone(t) : t));
+    setToast({ message: `Deleted "${target?.description || 'entry'}"`, undo: () => handleRestoreTransaction(id) });
+  };
+  const handleSaveTransaction = (t: Transaction) => setTransactions(p => p.some(x => x.id === t.id) ? p.map(x => x.id === t.id ? t : x) : [...p, t]);
+  const handleAddSettlement = (s: Settlement) => setSettlements(p => [...p, s]);
+  const handleDeleteSettlement = (id: string) => setSettlements(p => p.map(s => s.id === id ? tombstone(s) : s));
+  const handleSaveRecurring = (r: RecurringTemplate) => setRecurring(p => p.some(x => x.id === r.id) ? p.map(x => x.id === r.id ? r : x) : [...p, r]);
+  const handleDeleteRecurring = (id: string) => setRecurring(p => p.map(r => r.id === id ? tombstone(r) : r));
+  const handleSaveGoal = (g: Goal) => setGoals(p => p.some(x => x.id === g.id) ? p.map(x => x.id === g.id ? g : x) : [...p, g]);
+  const handleDeleteGoal = (id: string) => {
+    setGoals(p => p.map(g => g.id === id ? tombstone(g) : g));
+    setGoalContributions(p => p.map(c => c.goalId === id && !c.deleted ? tombstone(c) : c));
+  };
+  const handleSaveContribution = (c: GoalContribution) => setGoalContributions(p => [...p, c]);
+  const handleDeleteContribution = (id: string) => setGoalContributions(p => p.map(c => c.id === id ? tombstone(c) : c));
+
+  // Renames and merges rewrite history, budget keys, split rules and categorization rules in one step
+  const applyCategoryChange = (change: { categories: CategoryDefinition[]; renames: Record<string, string> }) => {
+    setCategories(change.categories);
+    setTransactions(p => remapTransactions(p, change.renames));
+    setBudgets(p => remapKeys(p, change.renames));
+    setSettlementRules(p => {
+      const categoryRules = remapKeys(p.categoryRules, change.renames);
+      return categoryRules === p.categoryRules ? p : { ...p, categoryRules, updatedAt: new Date().toISOString() };
+    });
+    setCategorization(p => remapRules(p, change.renames));
+  };
+
+  const handleSaveCategory = (c: CategoryDefinition) => {
+    if (categories.some(x => x.id === c.id)) {
+      applyCategoryChange(renameCategory(categories, c.id, c));
+    } else {
+      setCategories(p => [...p, { ...c, updatedAt: new Date().toISOString() }]);
+    }
+  };
+
+  const handleMergeCategory = (fromId: string, toId: string) => applyCategoryChange(mergeCategories(categories, fromId, toId));
+
+  const backupData = useMemo<BackupData>(() => ({
+    transactions, settlements, recurring, categories, budgets, goals, goalContributions, settlementRules, partnerProfiles, household, categorization,
+  }), [transactions, settlements, recurring, categories, budgets, goals, goalContributions, settlementRules, partnerProfiles, household, categorization]);
+
+  const takeSnapshot = (reason: SnapshotReason) => setSnapshots(p => pushSnapshot(p, reason, backupData));
+
+  const applyData = (next: BackupData) => {
+    setTransactions(next.transactions);
+    setSettlements(next.settlements);
+    setRecurring(next.recurring);
+    setCategories(next.categories);
+    setBudgets(next.budgets);
+    setGoals(next.goals);
+    setGoalContributions(next.goalContributions);
+    setSettlementRules(next.settlementRules);
+    setPartnerProfiles(next.partnerProfiles);
+    setHousehold(withCurrencyDefaults(next.household));
+    setCategorization(next.categorization);
+  };
+
+  const handleRestore = (incoming: BackupData, mode: RestoreMode) => applyData(applyRestore(backupData, incoming, mode));
+
+  const handleRestoreSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+    takeSnapshot('restore');
+    applyData(rollbackTo(backupData, snapshot.data));
+  };
+
+  const handleWipe = () => {
+    takeSnapshot('wipe');
+    setTransactions([]);
+  };
+
+  const queueSync = (): SyncOutcome => {
+    setSyncQueue(q => q || { queuedAt: new Date().toISOString() });
+    requestBackgroundSync();
+    setToast({ message: "You're offline. Sync will run when the connection is back." });
+    return 'queued';
+  };
+
+  // Throws on failure so each caller can report it in its own way; while offline the sync is queued instead
+  const runSync = async (): Promise<SyncOutcome> => {
+    const backend = backendFor(syncUrl);
+    if (!backend) throw new Error("No valid sync URL set");
+    if (!navigator.onLine) return queueSync();
+    takeSnapshot('sync');
+    let d;
+    try {
+      d = await performSync(backend, { transactions, settlements, recurring, categories, goals, goalContributions, budgets, settlementRules, partnerProfiles, household, categorization }, syncCursor, syncAuth);
+    } catch (err) {
+      if (isOfflineError(err)) return queueSync();
+      throw err;
+    }
+    const mergedCategories = mergeRecords(categories, d.categories);
+    // Entries logged offline under a name the other phone renamed are moved onto the new name
+    const renames = aliasMap(mergedCategories);
+    setCategories(prev => mergeRecords(prev, d.categories));
+    setTransactions(prev => remapTransactions(mergeRecords(prev, d.transactions), renames));
+    setSettlements(prev => mergeRecords(prev, d.settlements));
+    setRecurring(prev => mergeRecords(prev, d.recurring));
+    setGoals(prev => mergeRecords(prev, d.goals));
+    setGoalContributions(prev => mergeRecords(prev, d.goalContributions));
+    // Settings are merged into the latest state too, so an edit made while the request was in flight wins by its newer timestamp
+    setBudgets(prev => remapKeys(mergeBudgets(prev, d.budgets), renames));
+    setSettlementRules(prev => pickWinner(prev, d.settlementRules) || prev);
+    setPartnerProfiles(prev => pickWinner(prev, d.partnerProfiles) || prev);
+    // A household saved by an older version has no currency settings yet
+    setHousehold(prev => withCurrencyDefaults(pickWinner(prev, d.household) || prev));
+    setCategorization(prev => pickWinner(prev, d.categorization) || prev);
+    setSyncCursor(d.syncedAt);
+    setSyncQueue(null);
+    setLastSync(new Date().toLocaleTimeString());
+    return 'synced';
+  };
+
+  // Replays a queued sync when the connection returns: on the online event, when the service
+  // worker's background sync fires, or right away on launch if we're already back online
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+  useEffect(() => {
+    if (!syncQueue) return;
+    const replay = () => {
+      if (navigator.onLine) runSyncRef.current().catch(err => console.error("Queued sync failed", err));
+    };
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === SYNC_MESSAGE) replay();
+    };
+    window.addEventListener('online', replay);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    replay();
+    return () => {
+      window.removeEventListener('online', replay);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [syncQueue]);
+
   const isAIEnabled = useMemo(() => {
     const key = process.env.API_KEY;
     return !!(key && key !== 'undefined' && key.trim().length > 5);
@@ -76,28 +361,40 @@ const App: React.FC = () => {
     <HashRouter>
       <div className="min-h-screen pb-40 px-6">
         <div className="max-w-xl mx-auto">
+          <AlertBanners alerts={visibleAlerts} onDismiss={handleDismissAlert} />
           <Routes>
             <Route path="/" element={
               <Dashboard 
-                transactions={transactions} 
+                transactions={activeTransactions} 
                 budgets={budgets} 
-                categories={DEFAULT_CATEGORIES} 
-                partnerNames={PARTNER_NAMES} 
-                goals={goals} 
+                categories={visibleCategories} 
+                partnerNames={partnerNames} 
+                goals={activeGoals} 
+                goalContributions={activeContributions}
+                settlements={activeSettlements}
+                settlementRules={activeRules}
+                timeZone={household.timeZone}
+                baseCurrency={household.baseCurrency}
                 isSynced={lastSync !== 'Never'} 
                 lastSync={lastSync}
                 syncUrl={syncUrl}
-                setTransactions={setTransactions}
-                setBudgets={setBudgets}
-                setLastSync={setLastSync}
+                onSync={runSync}
+                onAddSettlement={handleAddSettlement}
               />
             } />
-            <Route path="/transactions" element={<TransactionList transactions={transactions} categories={DEFAULT_CATEGORIES} partnerNames={PARTNER_NAMES} onAdd={(t: Transaction) => setTransactions(p => [...p, t])} onDelete={(id: string) => setTransactions(p => p.filter(t => t.id !== id))} isAIEnabled={isAIEnabled} />} />
-            <Route path="/ai" element={<div className="pt-10"><AIAdvisor transactions={transactions} budgets={budgets} categories={DEFAULT_CATEGORIES} isEnabled={isAIEnabled} /></div>} />
-            <Route path="/settings" element={<SettingsView budgets={budgets} setBudgets={setBudgets} categories={DEFAULT_CATEGORIES} partnerNames={PARTNER_NAMES} syncUrl={syncUrl} setSyncUrl={setSyncUrl} lastSync={lastSync} setLastSync={setLastSync} transactions={transactions} setTransactions={setTransactions} />} />
+            <Route path="/settlements" element={<SettlementHistory transactions={activeTransactions} settlements={activeSettlements} settlementRules={activeRules} partnerNames={partnerNames} timeZone={household.timeZone} baseCurrency={household.baseCurrency} onAddSettlement={handleAddSettlement} onDeleteSettlement={handleDeleteSettlement} />} />
+            <Route path="/goals" element={<GoalsView goals={activeGoals} contributions={activeContributions} partnerProfiles={partnerProfiles} baseCurrency={household.baseCurrency} onSaveGoal={handleSaveGoal} onDeleteGoal={handleDeleteGoal} onSaveContribution={handleSaveContribution} onDeleteContribution={handleDeleteContribution} />} />
+            <Route path="/trash" element={<TrashView transactions={transactions} categories={visibleCategories} partnerNames={partnerNames} baseCurrency={household.baseCurrency} onRestore={handleRestoreTransaction} />} />
+            <Route path="/recurring" element={<RecurringView templates={activeRecurring} categories={visibleCategories} partnerNames={partnerNames} baseCurrency={household.baseCurrency} onSave={handleSaveRecurring} onDelete={handleDeleteRecurring} />} />
+            <Route path="/import" element={<ImportView transactions={activeTransactions} categories={visibleCategories} partnerNames={partnerNames} categorization={categorization} baseCurrency={household.baseCurrency} onImport={(txs: Transaction[]) => setTransactions(p => [...p, ...txs])} />} />
+            <Route path="/transactions" element={<TransactionList transactions={activeTransactions} categories={visibleCategories} partnerNames={partnerNames} partnerProfiles={partnerProfiles} settlementRules={activeRules} timeZone={household.timeZone} baseCurrency={household.baseCurrency} exchangeRates={household.exchangeRates} defaultPayer={devicePartner || UserRole.PARTNER_1} categorization={categorization} onSave={handleSaveTransaction} onDelete={handleDelete} isAIEnabled={isAIEnabled} />} />
+            <Route path="/analytics" element={<AnalyticsView transactions={activeTransactions} categories={visibleCategories} budgets={budgets} settlementRules={activeRules} partnerProfiles={partnerProfiles} timeZone={household.timeZone} baseCurrency={household.baseCurrency} />} />
+            <Route path="/ai" element={<div className="pt-10"><AIAdvisor transactions={activeTransactions} settlements={activeSettlements} categories={visibleCategories} budgets={budgets} settlementRules={activeRules} goals={activeGoals} goalContributions={activeContributions} partnerNames={partnerNames} recurring={activeRecurring} timeZone={household.timeZone} baseCurrency={household.baseCurrency} onSaveRecurring={handleSaveRecurring} session={coachSession} setSession={setCoachSession} isEnabled={isAIEnabled} /></div>} />
+            <Route path="/settings" element={<SettingsView budgets={budgets} setBudgets={setBudgets} categories={visibleCategories} onSaveCategory={handleSaveCategory} onMergeCategory={handleMergeCategory} categorization={categorization} setCategorization={setCategorization} partnerNames={partnerNames} partnerProfiles={partnerProfiles} setPartnerProfiles={setPartnerProfiles} household={household} setHousehold={setHousehold} settlementRules={settlementRules} setSettlementRules={setSettlementRules} syncUrl={syncUrl} setSyncUrl={setSyncUrl} syncAuth={syncAuth} setSyncAuth={setSyncAuth} onSync={runSync} onWipe={handleWipe} backupData={backupData} onRestore={handleRestore} snapshots={snapshots} onRestoreSnapshot={handleRestoreSnapshot} devicePartner={devicePartner} setDevicePartner={setDevicePartner} />} />
           </Routes>
         </div>
         <Navigation />
+        {toast && <Toast message={toast.message} actionLabel={toast.undo ? 'Undo' : undefined} onAction={() => { toast.undo?.(); setToast(null); }} onDismiss={() => setToast(null)} />}
       </div>
     </HashRouter>
   );
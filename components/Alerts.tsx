@@ -0,0 +1,94 @@
+import React, { memo } from 'react';
+import { AlertPreferences, PartnerProfiles, UserRole } from '../types';
+import { Card } from './UI';
+import { AlertKind, BudgetAlert, alertPreferences, notificationsSupported } from '../utils/alerts';
+
+const KIND_STYLES: Record<AlertKind, string> = {
+  'category-warning': 'bg-amber-50 border-amber-100 text-amber-800',
+  'category-over': 'bg-rose-50 border-rose-100 text-rose-800',
+  'total-over': 'bg-rose-50 border-rose-100 text-rose-800',
+  'large-expense': 'bg-indigo-50 border-indigo-100 text-indigo-800',
+  'balance': 'bg-indigo-50 border-indigo-100 text-indigo-800',
+};
+
+export const AlertBanners = memo(({ alerts, onDismiss }: { alerts: BudgetAlert[], onDismiss: (id: string) => void }) => {
+  if (alerts.length === 0) return null;
+  return (
+    <div className="pt-6 space-y-2">
+      {alerts.map(a => (
+        <div key={a.id} className={`flex items-start gap-3 px-5 py-3 rounded-[24px] border animate-in ${KIND_STYLES[a.kind]}`}>
+          <div className="flex-1">
+            <p className="text-[11px] font-black">{a.title}</p>
+            <p className="text-[10px] font-bold opacity-70">{a.message}</p>
+          </div>
+          <button onClick={() => onDismiss(a.id)} className="opacity-40 hover:opacity-70 font-bold text-lg leading-none">×</button>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export const AlertSettings = memo(({ partnerProfiles, devicePartner, setDevicePartner, onChange }: { partnerProfiles: PartnerProfiles, devicePartner: UserRole | '', setDevicePartner: (role: UserRole) => void, onChange: (role: UserRole, prefs: AlertPreferences) => void }) => {
+  const prefs = alertPreferences(devicePartner ? partnerProfiles[devicePartner] : undefined);
+
+  const update = (patch: Partial<AlertPreferences>) => {
+    if (devicePartner) onChange(devicePartner, { ...prefs, ...patch });
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && notificationsSupported() && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        alert("Notifications are blocked for this app. Allow them in your browser settings to get alerts outside the app.");
+        return;
+      }
+    }
+    update({ notifications: enabled });
+  };
+
+  const toggles: { key: 'categoryWarning' | 'categoryOver' | 'totalOver'; label: string }[] = [
+    { key: 'categoryWarning', label: 'A category reaches 80%' },
+    { key: 'categoryOver', label: 'A category goes over budget' },
+    { key: 'totalOver', label: 'Total monthly spend goes over budget' },
+  ];
+
+  return (
+    <Card title="Alerts on This Phone">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => (
+            <button key={role} onClick={() => setDevicePartner(role)} className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${devicePartner === role ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-400'}`}>
+              {partnerProfiles[role].avatar} {partnerProfiles[role].name}
+            </button>
+          ))}
+        </div>
+        {!devicePartner ? (
+          <p className="text-[10px] font-bold text-slate-400">Pick whose phone this is. Until then the default budget alerts show as banners only.</p>
+        ) : (
+          <>
+            {toggles.map(t => (
+              <label key={t.key} className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500 tracking-tight">
+                <input type="checkbox" checked={prefs[t.key]} onChange={e => update({ [t.key]: e.target.checked })} />
+                {t.label}
+              </label>
+            ))}
+            <div className="flex items-center gap-3">
+              <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">Single expense of at least</span>
+              <input type="number" min={0} value={prefs.largeExpense ?? ''} onChange={e => update({ largeExpense: Number(e.target.value) || null })} className="w-24 px-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" placeholder="Off" />
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">Settle-up balance above</span>
+              <input type="number" min={0} value={prefs.balanceAbove ?? ''} onChange={e => update({ balanceAbove: Number(e.target.value) || null })} className="w-24 px-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" placeholder="Off" />
+            </div>
+            {notificationsSupported() && (
+              <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500 tracking-tight">
+                <input type="checkbox" checked={prefs.notifications} onChange={e => toggleNotifications(e.target.checked)} />
+                Also send phone notifications
+              </label>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+});
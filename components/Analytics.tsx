@@ -0,0 +1,174 @@
+import React, { useState, useMemo, memo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { Transaction, CategoryDefinition, SettlementRules, PartnerProfiles, UserRole, Budgets } from '../types';
+import { Card } from './UI';
+import { PeriodSelector } from './PeriodSelector';
+import { analyzePeriod } from '../utils/analytics';
+import { Period, currentPeriod, dayKeyIn, inPeriod } from '../utils/period';
+import { formatCurrency } from '../utils/currency';
+
+// What the user tapped; the list below the charts shows the transactions behind it
+interface DrillDown {
+  label: string;
+  month?: string; // YYYY-MM
+  category?: string;
+  userId?: UserRole;
+}
+
+const axisTick = { fontSize: 10, fontWeight: 800, fill: '#94a3b8' };
+
+export const AnalyticsView = memo(({ transactions, categories, budgets, settlementRules, partnerProfiles, timeZone, baseCurrency }: { transactions: Transaction[], categories: CategoryDefinition[], budgets: Budgets, settlementRules: SettlementRules, partnerProfiles: PartnerProfiles, timeZone: string, baseCurrency: string }) => {
+  const money = (value: number) => formatCurrency(value, baseCurrency, 0);
+  const tooltipMoney = (value: unknown) => formatCurrency(Number(value), baseCurrency);
+  const [period, setPeriod] = useState<Period>(() => currentPeriod('year', timeZone));
+  const [drill, setDrill] = useState<DrillDown | null>(null);
+  const stats = useMemo(() => analyzePeriod(transactions, categories, budgets, settlementRules, period, timeZone), [transactions, categories, budgets, settlementRules, period, timeZone]);
+
+  // Category series are prefixed so a category called e.g. "Budget" can't clash with the row fields
+  const monthRows = useMemo(() => stats.months.map(m => ({
+    ...Object.fromEntries(Object.entries(m.byCategory).map(([name, value]) => [`cat:${name}`, value])),
+    key: m.key, label: m.label, spent: m.spent, budget: m.budget,
+  })), [stats]);
+  const partnerRows = useMemo(() => stats.partners.map(p => ({ ...p, name: `${partnerProfiles[p.role].avatar} ${partnerProfiles[p.role].name}` })), [stats, partnerProfiles]);
+
+  const drilled = useMemo(() => {
+    if (!drill) return [];
+    return transactions
+      .filter(t => inPeriod(t.date, period, timeZone))
+      .filter(t => !drill.month || dayKeyIn(t.date, timeZone).startsWith(drill.month))
+      .filter(t => !drill.userId || t.userId === drill.userId)
+      .map(t => ({ t, amount: drill.category ? t.splits.filter(s => s.categoryName === drill.category).reduce((acc, s) => acc + s.amount, 0) : t.totalAmount }))
+      .filter(r => !drill.category || r.amount !== 0)
+      .sort((a, b) => b.t.date.localeCompare(a.t.date));
+  }, [drill, transactions, period, timeZone]);
+
+  const handlePeriodChange = (p: Period) => {
+    setPeriod(p);
+    setDrill(null);
+  };
+
+  return (
+    <div className="space-y-8 animate-in pt-10 pb-10">
+      <header>
+        <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest mb-1">{money(stats.total)} spent</p>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Trends.</h1>
+      </header>
+
+      <PeriodSelector period={period} timeZone={timeZone} onChange={handlePeriodChange} />
+
+      {stats.total === 0 ? (
+        <div className="text-center py-20 bg-white rounded-[40px] border border-dashed border-slate-200">
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No spending in this period</p>
+        </div>
+      ) : (
+        <>
+          <Card title="Spend per Category by Month">
+            <div className="h-64 -ml-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthRows}>
+                  <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} />
+                  <YAxis tick={axisTick} axisLine={false} tickLine={false} tickFormatter={money} width={48} />
+                  <Tooltip formatter={tooltipMoney} />
+                  {stats.categories.map(c => (
+                    <Bar key={c.name} dataKey={`cat:${c.name}`} name={c.name} stackId="spend" fill={c.color} cursor="pointer"
+                      onClick={data => setDrill({ label: `${c.icon} ${c.name} · ${data.payload.label}`, month: data.payload.key, category: c.name })} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card title="Spend vs Budget">
+            <div className="h-56 -ml-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={monthRows} onClick={state => {
+                  const row = monthRows[Number(state.activeTooltipIndex)];
+                  if (row) setDrill({ label: `All spending · ${row.label}`, month: row.key });
+                }}>
+                  <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} />
+                  <YAxis tick={axisTick} axisLine={false} tickLine={false} tickFormatter={money} width={48} />
+                  <Tooltip formatter={tooltipMoney} />
+                  <Legend wrapperStyle={{ fontSize: 10, fontWeight: 800, textTransform: 'uppercase' }} />
+                  <Line type="monotone" dataKey="spent" name="Spent" stroke="#6366f1" strokeWidth={3} dot={{ r: 3 }} />
+                  <Line type="stepAfter" dataKey="budget" name="Budget" stroke="#cbd5e1" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card title="Category Share">
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie data={stats.categories} dataKey="value" nameKey="name" innerRadius="55%" outerRadius="85%" paddingAngle={2} cursor="pointer"
+                      onClick={(_, index) => {
+                        const c = stats.categories[index];
+                        if (c) setDrill({ label: `${c.icon} ${c.name}`, category: c.name });
+                      }}>
+                      {stats.categories.map(c => <Cell key={c.name} fill={c.color} />)}
+                    </Pie>
+                    <Tooltip formatter={tooltipMoney} />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-1 pt-2">
+                {stats.categories.slice(0, 5).map(c => (
+                  <div key={c.name} className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                    <span>{c.icon} {c.name}</span>
+                    <span>{((c.value / stats.total) * 100).toFixed(0)}%</span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Card title="Paid vs Owed">
+              <div className="h-56 -ml-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={partnerRows}>
+                    <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="name" tick={axisTick} axisLine={false} tickLine={false} />
+                    <YAxis tick={axisTick} axisLine={false} tickLine={false} tickFormatter={money} width={48} />
+                    <Tooltip formatter={tooltipMoney} />
+                    <Legend wrapperStyle={{ fontSize: 10, fontWeight: 800, textTransform: 'uppercase' }} />
+                    <Bar dataKey="paid" name="Paid" cursor="pointer" radius={[8, 8, 0, 0]}
+                      onClick={data => setDrill({ label: `Paid by ${data.payload.name}`, userId: data.payload.role })}>
+                      {partnerRows.map(p => <Cell key={p.role} fill={partnerProfiles[p.role].color} />)}
+                    </Bar>
+                    <Bar dataKey="owed" name="Share" fill="#cbd5e1" radius={[8, 8, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {drill && (
+        <Card title={drill.label} accent="bg-indigo-500">
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{drilled.length} entries · {tooltipMoney(drilled.reduce((acc, r) => acc + r.amount, 0))}</span>
+              <button onClick={() => setDrill(null)} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
+            </div>
+            <div className="max-h-[320px] overflow-y-auto no-scrollbar space-y-3">
+              {drilled.map(({ t, amount }) => (
+                <div key={t.id} className="flex justify-between items-center">
+                  <div>
+                    <h4 className="font-bold text-slate-900 text-sm">{t.description}</h4>
+                    <p className="text-[10px] font-black text-slate-400 uppercase">
+                      {new Date(`${dayKeyIn(t.date, timeZone)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} · <span style={{ color: partnerProfiles[t.userId].color }}>{partnerProfiles[t.userId].name}</span>
+                    </p>
+                  </div>
+                  <span className="text-sm font-black text-slate-900">{formatCurrency(amount, baseCurrency)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+});
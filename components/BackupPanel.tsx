@@ -0,0 +1,96 @@
+import React, { useState, memo } from 'react';
+import { PartnerNames } from '../types';
+import { Card } from './UI';
+import { BackupData, RestoreMode, CollectionDiff, createBackup, parseBackup, diffRestore, transactionsToCsv } from '../utils/backup';
+
+const downloadFile = (fileName: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const BackupPanel = memo(({ data, partnerNames, onRestore }: { data: BackupData, partnerNames: PartnerNames, onRestore: (incoming: BackupData, mode: RestoreMode) => void }) => {
+  const [incoming, setIncoming] = useState<BackupData | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [fileName, setFileName] = useState('');
+  const stamp = new Date().toISOString().split('T')[0];
+
+  const handleExportJson = () => {
+    downloadFile(`duospend-backup-${stamp}.json`, JSON.stringify(createBackup(data), null, 2), 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(`duospend-transactions-${stamp}.csv`, transactionsToCsv(data.transactions, partnerNames), 'text/csv');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setIncoming(parseBackup(await file.text(), data));
+      setFileName(file.name);
+    } catch (err: any) {
+      alert(`Restore failed: ${err?.message || err}`);
+    }
+  };
+
+  const handleApply = () => {
+    if (!incoming) return;
+    const warning = mode === 'replace'
+      ? "Replace ALL local data with this backup? Anything not in the file is deleted, here and on the other phone at the next sync."
+      : "Merge this backup into your local data?";
+    if (!confirm(warning)) return;
+    onRestore(incoming, mode);
+    setIncoming(null);
+    alert("Restore complete.");
+  };
+
+  const diff: CollectionDiff[] = incoming ? diffRestore(data, incoming, mode) : [];
+
+  return (
+    <Card title="Backup & Restore">
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={handleExportJson} className="py-4 rounded-2xl bg-slate-100 text-slate-900 font-black uppercase text-[10px] tracking-widest">💾 Full Backup</button>
+          <button onClick={handleExportCsv} className="py-4 rounded-2xl bg-slate-100 text-slate-900 font-black uppercase text-[10px] tracking-widest">📊 Export CSV</button>
+        </div>
+        <label className="block w-full py-4 rounded-2xl border border-dashed border-slate-200 text-slate-500 font-black uppercase text-[10px] tracking-widest text-center cursor-pointer">
+          ♻️ Restore From Backup
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+
+        {incoming && (
+          <div className="pt-3 border-t border-slate-50 space-y-3">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest truncate">{fileName}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                <button key={m} onClick={() => setMode(m)} className={`py-3 rounded-xl font-black uppercase text-[10px] tracking-widest ${mode === m ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-400'}`}>
+                  {m === 'merge' ? 'Merge by ID' : 'Replace All'}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {diff.map(d => (
+                <div key={d.label} className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                  <span>{d.label}:</span>
+                  <span>
+                    +{d.added} new · {d.updated} changed · {d.unchanged} same
+                    {d.removed > 0 && <span className="text-rose-500"> · −{d.removed} removed</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleApply} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest">Apply Restore</button>
+              <button onClick={() => setIncoming(null)} className="flex-1 bg-slate-50 text-slate-500 py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest">Cancel</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+});
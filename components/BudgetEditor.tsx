@@ -0,0 +1,81 @@
+import React, { useState, memo } from 'react';
+import { Budgets, BudgetVersion, BudgetPeriodicity, CategoryDefinition, PartnerNames, UserRole } from '../types';
+import { Card } from './UI';
+import { versionAt, versionLimit, setBudgetFrom } from '../utils/budgets';
+import { currencySymbol } from '../utils/currency';
+
+const PERIOD_LABELS: Record<BudgetPeriodicity, string> = { monthly: '/ mo', quarterly: '/ qtr', annual: '/ yr' };
+
+export const BudgetEditor = memo(({ budgets, setBudgets, categories, partnerNames, month, baseCurrency }: { budgets: Budgets, setBudgets: React.Dispatch<React.SetStateAction<Budgets>>, categories: CategoryDefinition[], partnerNames: PartnerNames, month: string, baseCurrency: string }) => {
+  const symbol = currencySymbol(baseCurrency);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const update = (catName: string, patch: Partial<BudgetVersion>) => {
+    setBudgets(prev => ({ ...prev, [catName]: setBudgetFrom(prev[catName], month, patch) }));
+  };
+
+  const updateAllowance = (catName: string, role: UserRole, value: string) => {
+    const current = versionAt(budgets[catName], month)?.allowances || {};
+    const allowances = { ...current };
+    if (value === '') delete allowances[role];
+    else allowances[role] = Number(value);
+    update(catName, { allowances: Object.keys(allowances).length > 0 ? allowances : undefined });
+  };
+
+  return (
+    <Card title={`Limits from ${monthLabel}`}>
+      <div className="space-y-4 max-h-[420px] overflow-y-auto no-scrollbar py-2">
+        {categories.map((cat: CategoryDefinition) => {
+          const v = versionAt(budgets[cat.name], month);
+          const limit = versionLimit(v);
+          const hasAllowances = !!v?.allowances && Object.keys(v.allowances).length > 0;
+          const expanded = expandedId === cat.id;
+          return (
+            <div key={cat.id} className="space-y-2">
+              <div className="flex items-center gap-3">
+                <button onClick={() => setExpandedId(expanded ? null : cat.id)} className="w-8 text-center">{cat.icon}</button>
+                <button onClick={() => setExpandedId(expanded ? null : cat.id)} className="flex-1 text-left text-[10px] font-black uppercase text-slate-500 tracking-tight">
+                  {cat.name}
+                  {v?.rollover && limit !== null && <span className="text-indigo-400"> · rollover</span>}
+                </button>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300 font-bold">{symbol}</span>
+                  {/* Empty means no budget; 0 is a real limit of zero */}
+                  <input type="number" min={0} value={limit ?? ''} disabled={hasAllowances} onChange={e => update(cat.name, { limit: e.target.value === '' ? null : Number(e.target.value) })} className={`w-24 ${symbol.length > 1 ? 'pl-11' : 'pl-6'} pr-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm disabled:text-slate-400`} placeholder="None" />
+                </div>
+                <span className="w-10 text-[9px] font-black uppercase text-slate-400">{limit !== null && v ? PERIOD_LABELS[v.periodicity] : ''}</span>
+              </div>
+              {expanded && (
+                <div className="ml-11 p-3 bg-slate-50 rounded-2xl space-y-3">
+                  <div className="grid grid-cols-3 gap-1">
+                    {(['monthly', 'quarterly', 'annual'] as BudgetPeriodicity[]).map(p => (
+                      <button key={p} onClick={() => update(cat.name, { periodicity: p })} className={`py-2 rounded-xl text-[9px] font-black uppercase tracking-widest ${(v?.periodicity || 'monthly') === p ? 'bg-slate-900 text-white' : 'bg-white text-slate-400'}`}>{p}</button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500 tracking-tight">
+                    <input type="checkbox" checked={!!v?.rollover} onChange={e => update(cat.name, { rollover: e.target.checked })} />
+                    Roll leftover or overspend into the next period
+                  </label>
+                  <div className="space-y-2">
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Personal allowances (optional)</p>
+                    {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => (
+                      <div key={role} className="flex items-center gap-3">
+                        <span className="flex-1 text-[10px] font-black uppercase text-slate-500">{partnerNames[role]}</span>
+                        <input type="number" min={0} value={v?.allowances?.[role] ?? ''} onChange={e => updateAllowance(cat.name, role, e.target.value)} className="w-24 px-3 py-2 bg-white rounded-xl font-black text-right outline-none text-sm" placeholder="—" />
+                      </div>
+                    ))}
+                  </div>
+                  {limit !== null && (
+                    <button onClick={() => update(cat.name, { limit: null, allowances: undefined })} className="text-[10px] font-black text-rose-400 uppercase tracking-widest">Remove budget</button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest pt-3">Changes apply from this month; earlier months keep their limits</p>
+    </Card>
+  );
+});
@@ -0,0 +1,88 @@
+import React, { useState, memo } from 'react';
+import { CategoryDefinition } from '../types';
+import { Card } from './UI';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+const CategoryForm = ({ initial, submitLabel, onSubmit, onCancel }: { initial: Pick<CategoryDefinition, 'name' | 'icon' | 'color'>, submitLabel: string, onSubmit: (v: Pick<CategoryDefinition, 'name' | 'icon' | 'color'>) => void, onCancel?: () => void }) => {
+  const [name, setName] = useState(initial.name);
+  const [icon, setIcon] = useState(initial.icon);
+  const [color, setColor] = useState(initial.color);
+
+  return (
+    <form onSubmit={e => { e.preventDefault(); onSubmit({ name: name.trim(), icon: icon.trim() || '💰', color }); }} className="flex gap-2 items-center">
+      <input value={icon} onChange={e => setIcon(e.target.value)} maxLength={4} className="w-12 px-2 py-2 bg-slate-50 rounded-xl text-center outline-none" aria-label="Icon" />
+      <input required value={name} onChange={e => setName(e.target.value)} className="flex-1 min-w-0 px-3 py-2 bg-slate-50 rounded-xl font-bold outline-none text-sm" placeholder="Category name" />
+      <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-10 h-10 rounded-xl bg-slate-50 cursor-pointer" aria-label="Color" />
+      <button type="submit" className="bg-slate-900 text-white px-3 py-2 rounded-xl font-black uppercase text-[9px] tracking-widest">{submitLabel}</button>
+      {onCancel && <button type="button" onClick={onCancel} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>}
+    </form>
+  );
+};
+
+export const CategoryManager = memo(({ categories, onSave, onMerge }: { categories: CategoryDefinition[], onSave: (c: CategoryDefinition) => void, onMerge: (fromId: string, toId: string) => void }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    categories.some(c => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase());
+
+  const handleCreate = (v: Pick<CategoryDefinition, 'name' | 'icon' | 'color'>) => {
+    if (nameTaken(v.name)) return alert(`"${v.name}" already exists.`);
+    onSave({ id: generateId(), updatedAt: '', ...v });
+  };
+
+  const handleRename = (c: CategoryDefinition, v: Pick<CategoryDefinition, 'name' | 'icon' | 'color'>) => {
+    if (nameTaken(v.name, c.id)) return alert(`"${v.name}" already exists. Use Merge to combine the two categories.`);
+    if (v.name !== c.name && !confirm(`Rename "${c.name}" to "${v.name}"? Past entries and budgets will move to the new name.`)) return;
+    onSave({ ...c, ...v });
+    setEditingId(null);
+  };
+
+  const handleMerge = (from: CategoryDefinition, toId: string) => {
+    const to = categories.find(c => c.id === toId);
+    if (!to) return;
+    if (confirm(`Merge "${from.name}" into "${to.name}"? All past entries move to "${to.name}" and "${from.name}" is removed.`)) {
+      onMerge(from.id, to.id);
+    }
+    setMergingId(null);
+  };
+
+  const listed = categories.filter(c => showArchived || !c.archived);
+
+  return (
+    <Card title="Categories">
+      <div className="space-y-3">
+        <CategoryForm initial={{ name: '', icon: '🏷️', color: '#6366f1' }} submitLabel="Add" onSubmit={handleCreate} />
+        <div className="space-y-2 max-h-[360px] overflow-y-auto no-scrollbar pt-3 border-t border-slate-50">
+          {listed.map(c => editingId === c.id ? (
+            <CategoryForm key={c.id} initial={c} submitLabel="Save" onSubmit={v => handleRename(c, v)} onCancel={() => setEditingId(null)} />
+          ) : (
+            <div key={c.id} className={`flex items-center gap-2 ${c.archived ? 'opacity-40' : ''}`}>
+              <span className="w-8 h-8 rounded-lg flex items-center justify-center" style={{ backgroundColor: `${c.color}22` }}>{c.icon}</span>
+              <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight truncate">{c.name}</span>
+              {mergingId === c.id ? (
+                <select autoFocus defaultValue="" onChange={e => handleMerge(c, e.target.value)} onBlur={() => setMergingId(null)} className="w-36 px-2 py-1 rounded-lg bg-slate-50 font-bold outline-none text-xs">
+                  <option value="" disabled>Merge into…</option>
+                  {categories.filter(x => x.id !== c.id).map(x => <option key={x.id} value={x.id}>{x.icon} {x.name}</option>)}
+                </select>
+              ) : (
+                <>
+                  <button onClick={() => setEditingId(c.id)} className="text-[9px] font-black uppercase text-slate-400 hover:text-slate-900">Edit</button>
+                  <button onClick={() => setMergingId(c.id)} className="text-[9px] font-black uppercase text-slate-400 hover:text-slate-900">Merge</button>
+                  <button onClick={() => onSave({ ...c, archived: !c.archived })} className="text-[9px] font-black uppercase text-slate-400 hover:text-rose-500">{c.archived ? 'Restore' : 'Archive'}</button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+        {categories.some(c => c.archived) && (
+          <button onClick={() => setShowArchived(v => !v)} className="text-[9px] font-black uppercase text-slate-400 tracking-widest">
+            {showArchived ? 'Hide archived' : 'Show archived'}
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+});
@@ -0,0 +1,88 @@
+import React, { useState, memo } from 'react';
+import { CategorizationSettings, CategoryDefinition, CategoryRule, CategoryRuleMatch } from '../types';
+import { Card } from './UI';
+import { describeRule } from '../utils/categorize';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+export const CategoryRulesEditor = memo(({ categorization, setCategorization, categories }: { categorization: CategorizationSettings, setCategorization: React.Dispatch<React.SetStateAction<CategorizationSettings>>, categories: CategoryDefinition[] }) => {
+  const [match, setMatch] = useState<CategoryRuleMatch>('contains');
+  const [pattern, setPattern] = useState('');
+  const [categoryName, setCategoryName] = useState(categories[0]?.name || '');
+  const { rules, autoApplyThreshold } = categorization;
+
+  const update = (patch: Partial<CategorizationSettings>) => {
+    setCategorization(prev => ({ ...prev, ...patch, updatedAt: new Date().toISOString() }));
+  };
+
+  const move = (index: number, by: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + by, 0, rule);
+    update({ rules: next });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = pattern.trim();
+    if (!text) return;
+    const target = categoryName || categories[0]?.name;
+    if (!target) return alert("Add a category first.");
+    if (rules.some(r => r.match === match && r.pattern.toLowerCase() === text.toLowerCase())) return alert(`There is already a rule for "${text}".`);
+    const rule: CategoryRule = { id: generateId(), pattern: text, match, categoryName: target };
+    update({ rules: [...rules, rule] });
+    setPattern('');
+  };
+
+  const percent = Math.round(autoApplyThreshold * 100);
+
+  return (
+    <Card title="Auto-Categorize">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          {rules.length === 0 ? (
+            <p className="text-[10px] font-bold text-slate-400">No rules yet. Suggestions come from how past entries were filed.</p>
+          ) : rules.map((r, i) => {
+            const category = categories.find(c => c.name === r.categoryName);
+            return (
+              <div key={r.id} className="flex items-center gap-2">
+                <span className="w-5 text-[9px] font-black text-slate-300">{i + 1}</span>
+                <span className="flex-1 min-w-0 text-[10px] font-black uppercase text-slate-500 tracking-tight truncate">
+                  {describeRule(r)} → <span className={category ? 'text-slate-900' : 'text-rose-400'}>{category ? `${category.icon} ${r.categoryName}` : `${r.categoryName} (archived)`}</span>
+                </span>
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30 font-bold">↑</button>
+                <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30 font-bold">↓</button>
+                <button onClick={() => update({ rules: rules.filter(x => x.id !== r.id) })} className="text-slate-300 hover:text-rose-400 font-bold text-lg">×</button>
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2 items-center">
+          <select value={match} onChange={e => setMatch(e.target.value as CategoryRuleMatch)} className="w-24 px-2 py-2 bg-slate-50 rounded-xl font-bold outline-none text-xs">
+            <option value="contains">Contains</option>
+            <option value="startsWith">Starts with</option>
+            <option value="exact">Is exactly</option>
+          </select>
+          <input value={pattern} onChange={e => setPattern(e.target.value)} className="flex-1 min-w-0 px-3 py-2 bg-slate-50 rounded-xl font-bold outline-none text-sm" placeholder="SHELL" />
+          <select value={categoryName} onChange={e => setCategoryName(e.target.value)} className="w-28 px-2 py-2 bg-slate-50 rounded-xl font-bold outline-none text-xs">
+            {categories.map(c => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+          </select>
+          <button type="submit" className="px-3 py-2 rounded-xl bg-slate-900 text-white font-black uppercase text-[10px] tracking-widest">Add</button>
+        </form>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Rules are checked top to bottom; the first match wins over past history</p>
+
+        <div className="space-y-2 pt-3 border-t border-slate-50">
+          <div className="flex items-center gap-3">
+            <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">Fill in automatically from</span>
+            <span className="text-sm font-black text-slate-900">{percent}%</span>
+          </div>
+          <input type="range" min={50} max={100} step={5} value={percent} onChange={e => update({ autoApplyThreshold: Number(e.target.value) / 100 })} className="w-full" />
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+            {percent === 100 ? 'Only rules fill in a category; history is just suggested' : 'Less confident guesses are shown as a suggestion to tap'}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+});
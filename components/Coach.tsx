@@ -0,0 +1,68 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { CategoryDefinition } from '../types';
+import { CoachMessage, CoachTip } from '../utils/coach';
+import { formatCurrency } from '../utils/currency';
+
+export const CoachTips = memo(({ tips, categories, baseCurrency }: { tips: CoachTip[], categories: CategoryDefinition[], baseCurrency: string }) => {
+  if (tips.length === 0) return <p className="text-[10px] font-black text-white/50 uppercase tracking-widest">No tips this time. Things look on track.</p>;
+  return (
+    <div className="space-y-3 text-left">
+      {tips.map((tip, i) => {
+        const category = tip.categoryName ? categories.find(c => c.name === tip.categoryName) : undefined;
+        return (
+          <div key={i} className="bg-white/10 rounded-3xl p-5 border border-white/5 space-y-2">
+            <div className="flex items-start gap-3">
+              <span className="text-xl">{category?.icon || '💡'}</span>
+              <div className="flex-1 min-w-0">
+                <h3 className="font-black text-sm text-white">{tip.title}</h3>
+                <p className="text-[9px] font-black uppercase tracking-widest text-white/50">{tip.categoryName || 'Household'}</p>
+              </div>
+              {tip.estimatedMonthlySavings > 0 && (
+                <span className="bg-emerald-400 text-slate-900 text-[9px] font-black px-2 py-1 rounded-full uppercase tracking-tighter whitespace-nowrap">~{formatCurrency(tip.estimatedMonthlySavings, baseCurrency, 0)}/mo</span>
+              )}
+            </div>
+            <p className="text-xs text-white/80 leading-relaxed">{tip.rationale}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+/** Follow-up questions; `onAsk` resolves false when no answer came back, and the question is put back in the box. */
+export const CoachChat = memo(({ messages, busy, disabled, onAsk, onClear }: { messages: CoachMessage[], busy: boolean, disabled: boolean, onAsk: (question: string) => Promise<boolean>, onClear: () => void }) => {
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  useEffect(() => endRef.current?.scrollIntoView({ block: 'nearest' }), [messages.length, busy]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || busy) return;
+    setQuestion('');
+    if (!(await onAsk(text))) setQuestion(text);
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      {messages.length > 0 && (
+        <div className="space-y-2 max-h-[360px] overflow-y-auto no-scrollbar">
+          {messages.map((m, i) => (
+            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p className={`max-w-[85%] px-4 py-3 rounded-3xl text-xs leading-relaxed whitespace-pre-wrap ${m.role === 'user' ? 'bg-indigo-500 text-white' : 'bg-white/10 text-white/90 border border-white/5'}`}>{m.text}</p>
+            </div>
+          ))}
+          {busy && <p className="text-[10px] font-black text-white/50 uppercase tracking-widest animate-pulse">Thinking…</p>}
+          <div ref={endRef} />
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input value={question} onChange={e => setQuestion(e.target.value)} disabled={disabled} className="flex-1 min-w-0 px-4 py-3 rounded-2xl bg-white/10 text-white placeholder-white/40 font-bold outline-none text-sm disabled:opacity-50" placeholder="Why is Dining out up?" />
+        <button type="submit" disabled={disabled || busy || !question.trim()} className="bg-white text-slate-900 px-4 py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest disabled:opacity-50">Ask</button>
+      </form>
+      {messages.length > 0 && (
+        <button onClick={onClear} className="text-[9px] font-black text-white/40 uppercase tracking-widest">Clear conversation</button>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,94 @@
+import React, { useState, useMemo, memo } from 'react';
+import { HouseholdSettings, ExchangeRate } from '../types';
+import { Card } from './UI';
+import { isCurrencyCode, parseRatesFile, upsertRates } from '../utils/currency';
+
+export const CurrencySettings = memo(({ household, setHousehold, hasForeignEntries }: { household: HouseholdSettings, setHousehold: React.Dispatch<React.SetStateAction<HouseholdSettings>>, hasForeignEntries: boolean }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [baseDraft, setBaseDraft] = useState(household.baseCurrency);
+  const [code, setCode] = useState('');
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(today);
+  const currencies = useMemo(() => typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('currency') : [], []);
+  const base = household.baseCurrency;
+
+  const saveRates = (exchangeRates: ExchangeRate[]) => {
+    setHousehold(prev => ({ ...prev, exchangeRates, updatedAt: new Date().toISOString() }));
+  };
+
+  const handleBaseChange = (value: string) => {
+    const next = value.trim().toUpperCase();
+    setBaseDraft(next);
+    if (!isCurrencyCode(next) || next === base) return;
+    // Stored rates are quoted against the old base and logged amounts were converted into it
+    if ((hasForeignEntries || household.exchangeRates.length > 0) && !confirm(`Switch the household currency to ${next}? Amounts already logged are not converted, and the stored ${base} rates will be cleared.`)) {
+      setBaseDraft(base);
+      return;
+    }
+    setHousehold(prev => ({ ...prev, baseCurrency: next, exchangeRates: [], updatedAt: new Date().toISOString() }));
+  };
+
+  const handleAdd = () => {
+    const currency = code.trim().toUpperCase();
+    if (!isCurrencyCode(currency)) return alert("Use a three-letter currency code like EUR.");
+    if (currency === base) return alert(`${base} is the household currency.`);
+    if (!(Number(rate) > 0)) return alert(`Enter how much 1 ${currency} is in ${base}.`);
+    saveRates(upsertRates(household.exchangeRates, [{ currency, rate: Number(rate), date }]));
+    setCode('');
+    setRate('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRatesFile(await file.text(), base, today);
+      if (imported.length === 0) return alert("No rates found. Use lines of currency,rate,date or a JSON rates export.");
+      saveRates(upsertRates(household.exchangeRates, imported));
+      alert(`Imported ${imported.length} rate${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      console.error("Rates import failed", err);
+      alert(err instanceof Error ? err.message : "Could not read that rates file.");
+    }
+  };
+
+  return (
+    <Card title="Currency">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">Household currency</span>
+          <input list="ds-currencies" value={baseDraft} onChange={e => handleBaseChange(e.target.value)} maxLength={3} className={`w-24 px-3 py-2 rounded-xl font-black text-center outline-none text-sm uppercase ${isCurrencyCode(baseDraft) ? 'bg-slate-50 text-slate-900' : 'bg-rose-50 text-rose-700'}`} />
+          <datalist id="ds-currencies">
+            {currencies.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </div>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Totals, budgets and settle-up are all in {base}. Foreign charges are converted when logged.</p>
+
+        <div className="space-y-2 pt-3 border-t border-slate-50">
+          {household.exchangeRates.length === 0 ? (
+            <p className="text-[10px] font-bold text-slate-400">No exchange rates yet.</p>
+          ) : household.exchangeRates.map(r => (
+            <div key={`${r.currency}:${r.date}`} className="flex items-center gap-3">
+              <span className="w-12 text-[10px] font-black text-slate-900">{r.currency}</span>
+              <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">1 = {r.rate} {base} · from {r.date}</span>
+              <button onClick={() => saveRates(household.exchangeRates.filter(x => x !== r))} className="text-slate-300 hover:text-rose-400 font-bold text-lg">×</button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 items-center">
+          <input list="ds-currencies" value={code} onChange={e => setCode(e.target.value.toUpperCase())} maxLength={3} className="w-16 px-2 py-2 bg-slate-50 rounded-xl font-black text-center outline-none text-sm uppercase" placeholder="EUR" />
+          <input type="number" step="any" min={0} value={rate} onChange={e => setRate(e.target.value)} className="flex-1 min-w-0 px-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" placeholder={`${base} per 1`} />
+          <input type="date" value={date} onChange={e => setDate(e.target.value)} className="w-32 px-2 py-2 bg-slate-50 rounded-xl font-bold outline-none text-xs" aria-label="Applies from" />
+          <button onClick={handleAdd} className="px-3 py-2 rounded-xl bg-slate-900 text-white font-black uppercase text-[10px] tracking-widest">Add</button>
+        </div>
+        <label className="block w-full py-3 rounded-2xl border border-dashed border-slate-200 text-slate-500 font-black uppercase text-[10px] tracking-widest text-center cursor-pointer">
+          📄 Import Rates File
+          <input type="file" accept=".csv,.txt,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+        </label>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Each rate applies from its date until a newer one for the same currency</p>
+      </div>
+    </Card>
+  );
+});
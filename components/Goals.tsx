@@ -0,0 +1,214 @@
+import React, { useState, useMemo, memo } from 'react';
+import { Link } from 'react-router-dom';
+import { Goal, GoalContribution, PartnerProfiles, UserRole } from '../types';
+import { Card, ProgressBar } from './UI';
+import { projectGoal, contributionsFor } from '../utils/goals';
+import { todayKey } from '../utils/recurring';
+import { formatCurrency } from '../utils/currency';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const GoalModal = ({ initial, onSave, onClose }: { initial?: Goal, onSave: (g: Goal) => void, onClose: () => void }) => {
+  const [name, setName] = useState(initial?.name || '');
+  const [icon, setIcon] = useState(initial?.icon || '🎯');
+  const [target, setTarget] = useState(initial?.target || 0);
+  const [targetDate, setTargetDate] = useState(initial?.targetDate || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (target <= 0) return alert("Target must be greater than 0");
+    onSave({
+      id: initial?.id || generateId(),
+      name: name.trim() || 'Savings goal',
+      icon: icon.trim() || '🎯',
+      target: Number(target),
+      ...(targetDate ? { targetDate } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 backdrop-blur-[2px] p-4">
+      <div className="bg-white rounded-[40px] w-full max-w-md p-8 shadow-2xl animate-in">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-black tracking-tight">{initial ? 'Edit Goal' : 'New Goal'}</h2>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="flex gap-2">
+            <input value={icon} onChange={e => setIcon(e.target.value)} className="w-16 px-4 py-4 rounded-2xl bg-slate-50 text-center text-xl outline-none" maxLength={4} />
+            <input required value={name} onChange={e => setName(e.target.value)} className="flex-1 px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Emergency fund, Trip to Japan…" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">Target</span>
+              <input type="number" step="0.01" min={0} required value={target || ''} onChange={e => setTarget(Number(e.target.value))} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-black text-right outline-none" placeholder="0.00" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">By (optional)</span>
+              <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+            </label>
+          </div>
+          <button type="submit" className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">Save Goal</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const ContributionModal = ({ goal, partnerProfiles, onSave, onClose }: { goal: Goal, partnerProfiles: PartnerProfiles, onSave: (c: GoalContribution) => void, onClose: () => void }) => {
+  const [userId, setUserId] = useState<UserRole>(UserRole.PARTNER_1);
+  const [amount, setAmount] = useState(0);
+  const [date, setDate] = useState(todayKey());
+  const [note, setNote] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Negative amounts record a withdrawal from the pot
+    if (!amount) return alert("Enter an amount");
+    onSave({
+      id: generateId(),
+      goalId: goal.id,
+      userId,
+      amount: Number(amount),
+      date: new Date(`${date}T12:00:00`).toISOString(),
+      ...(note.trim() ? { note: note.trim() } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 backdrop-blur-[2px] p-4">
+      <div className="bg-white rounded-[40px] w-full max-w-md p-8 shadow-2xl animate-in">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest mb-1">{goal.icon} {goal.name}</p>
+            <h2 className="text-2xl font-black tracking-tight">Add Contribution</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => (
+              <button key={role} type="button" onClick={() => setUserId(role)} className={`py-4 rounded-2xl font-black text-sm transition-all ${userId === role ? 'text-white shadow-lg' : 'bg-slate-50 text-slate-400'}`} style={userId === role ? { backgroundColor: partnerProfiles[role].color } : undefined}>
+                {partnerProfiles[role].avatar} {partnerProfiles[role].name}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input type="number" step="0.01" required value={amount || ''} onChange={e => setAmount(Number(e.target.value))} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-black text-right outline-none" placeholder="0.00" />
+            <input type="date" required value={date} onChange={e => setDate(e.target.value)} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+          </div>
+          <input value={note} onChange={e => setNote(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Note (optional)" />
+          <button type="submit" className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">Save Contribution</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export const GoalsView = memo(({ goals, contributions, partnerProfiles, baseCurrency, onSaveGoal, onDeleteGoal, onSaveContribution, onDeleteContribution }: { goals: Goal[], contributions: GoalContribution[], partnerProfiles: PartnerProfiles, baseCurrency: string, onSaveGoal: (g: Goal) => void, onDeleteGoal: (id: string) => void, onSaveContribution: (c: GoalContribution) => void, onDeleteContribution: (id: string) => void }) => {
+  const [editing, setEditing] = useState<Goal | null>(null);
+  const [isGoalModalOpen, setIsGoalModalOpen] = useState(false);
+  const [funding, setFunding] = useState<Goal | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const projections = useMemo(() => new Map(goals.map(g => [g.id, projectGoal(g, contributions)])), [goals, contributions]);
+
+  const openEditor = (g: Goal | null) => {
+    setEditing(g);
+    setIsGoalModalOpen(true);
+  };
+
+  return (
+    <div className="space-y-8 animate-in pb-10">
+      <header className="flex flex-col gap-4 pt-4">
+        <Link to="/" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">← Overview</Link>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Goals</h1>
+        <button
+          onClick={() => openEditor(null)}
+          className="w-full bg-slate-900 text-white px-6 py-6 rounded-3xl font-black uppercase text-xs tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+        >
+          <span className="text-xl">+</span> New Savings Goal
+        </button>
+      </header>
+
+      {goals.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-[40px] border border-dashed border-slate-200">
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No goals yet</p>
+        </div>
+      ) : goals.map(goal => {
+        const p = projections.get(goal.id)!;
+        const history = contributionsFor(goal.id, contributions).sort((a, b) => b.date.localeCompare(a.date));
+        return (
+          <Card key={goal.id} title={`${goal.icon} ${goal.name}`} accent={p.remaining === 0 ? 'bg-emerald-500' : 'bg-indigo-500'}>
+            <div className="space-y-4">
+              <div className="flex justify-between items-end">
+                <p className="text-2xl font-black text-slate-900">
+                  {formatCurrency(p.saved, baseCurrency, 0)} <span className="text-slate-300 font-normal text-lg">/ {formatCurrency(goal.target, baseCurrency, 0)}</span>
+                </p>
+                <span className="text-sm font-black text-slate-500">{p.percent.toFixed(0)}%</span>
+              </div>
+              <ProgressBar progress={p.percent} color={p.remaining === 0 ? '#10b981' : '#6366f1'} />
+              <div className="space-y-1">
+                {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => (
+                  <div key={role} className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                    <span>{partnerProfiles[role].avatar} {partnerProfiles[role].name}</span>
+                    <span>{formatCurrency(p.byPartner[role], baseCurrency)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="p-4 bg-slate-50 rounded-[24px] space-y-1">
+                {p.remaining === 0 ? (
+                  <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Goal reached 🎉</p>
+                ) : (
+                  <>
+                    <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                      {p.projectedDate ? `At this pace: ${formatDay(p.projectedDate)}` : 'Add a contribution to see a forecast'}
+                    </p>
+                    {p.dailyPace > 0 && <p className="text-[9px] font-bold text-slate-400 uppercase">Saving ~{formatCurrency(p.dailyPace * 30.44, baseCurrency, 0)} / month</p>}
+                    {goal.targetDate && p.requiredMonthly !== null && (
+                      <p className={`text-[9px] font-black uppercase ${p.onTrack ? 'text-emerald-500' : 'text-rose-500'}`}>
+                        {p.onTrack ? 'On track' : 'Behind'} for {formatDay(goal.targetDate)} · needs {formatCurrency(p.requiredMonthly, baseCurrency, 0)} / month
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setFunding(goal)} className="flex-1 bg-slate-900 text-white py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">+ Contribute</button>
+                <button onClick={() => setExpandedId(expandedId === goal.id ? null : goal.id)} className="flex-1 bg-slate-50 text-slate-500 py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest">History ({history.length})</button>
+              </div>
+              {expandedId === goal.id && (
+                <div className="space-y-3 pt-2">
+                  {history.map(c => (
+                    <div key={c.id} className="flex justify-between items-center">
+                      <div>
+                        <h4 className="font-bold text-slate-900 text-sm">{partnerProfiles[c.userId]?.name || c.userId}{c.note ? ` · ${c.note}` : ''}</h4>
+                        <p className="text-[10px] font-black text-slate-400 uppercase">{new Date(c.date).toLocaleDateString()}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`text-sm font-black ${c.amount < 0 ? 'text-rose-500' : 'text-slate-900'}`}>{formatCurrency(c.amount, baseCurrency)}</span>
+                        <button onClick={() => { if (confirm("Remove this contribution?")) onDeleteContribution(c.id); }} className="text-slate-200 hover:text-rose-400 p-1 font-bold text-xl">×</button>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex gap-4 pt-2 border-t border-slate-50">
+                    <button onClick={() => openEditor(goal)} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">Edit Goal</button>
+                    <button onClick={() => { if (confirm(`Delete "${goal.name}" and its contributions?`)) onDeleteGoal(goal.id); }} className="text-[10px] font-black text-rose-400 uppercase tracking-widest">Delete</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+
+      {isGoalModalOpen && <GoalModal initial={editing || undefined} onSave={onSaveGoal} onClose={() => setIsGoalModalOpen(false)} />}
+      {funding && <ContributionModal goal={funding} partnerProfiles={partnerProfiles} onSave={onSaveContribution} onClose={() => setFunding(null)} />}
+    </div>
+  );
+});
@@ -0,0 +1,218 @@
+import React, { useState, useMemo, useEffect, memo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Transaction, CategoryDefinition, CategorizationSettings, PartnerNames, UserRole } from '../types';
+import { Card } from './UI';
+import { ImportProfile, ImportRow, DateFormat, DEFAULT_IMPORT_PROFILE, parseCsv, parseOfx, isOfx, rowsFromCsv, findDuplicate } from '../utils/importer';
+import { CategorySuggestion, learnCategories, suggestCategory } from '../utils/categorize';
+import { formatCurrency } from '../utils/currency';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+interface PreviewRow extends ImportRow {
+  include: boolean;
+  categoryName: string;
+  suggestion: CategorySuggestion | null;
+}
+
+const ColumnSelect = ({ label, value, columns, onChange, allowNone = false }: { label: string, value: number, columns: string[], onChange: (v: number) => void, allowNone?: boolean }) => (
+  <label className="flex items-center gap-3">
+    <span className="w-24 text-[9px] font-black uppercase text-slate-400 tracking-widest">{label}</span>
+    <select value={value} onChange={e => onChange(Number(e.target.value))} className="flex-1 px-3 py-2 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+      {allowNone && <option value={-1}>—</option>}
+      {columns.map((c, i) => <option key={i} value={i}>{c}</option>)}
+    </select>
+  </label>
+);
+
+export const ImportView = memo(({ transactions, categories, partnerNames, categorization, baseCurrency, onImport }: { transactions: Transaction[], categories: CategoryDefinition[], partnerNames: PartnerNames, categorization: CategorizationSettings, baseCurrency: string, onImport: (txs: Transaction[]) => void }) => {
+  const navigate = useNavigate();
+  const pickerCategories = useMemo(() => categories.filter(c => !c.archived), [categories]);
+  const [profiles, setProfiles] = useState<ImportProfile[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('ds_import_profiles') || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (e) {
+      console.error("Saved import mappings are unreadable; starting without them", e);
+      return [];
+    }
+  });
+  useEffect(() => localStorage.setItem('ds_import_profiles', JSON.stringify(profiles)), [profiles]);
+
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [ofxRows, setOfxRows] = useState<ImportRow[] | null>(null);
+  const [profile, setProfile] = useState<ImportProfile>({ id: '', name: '', ...DEFAULT_IMPORT_PROFILE });
+  const [payer, setPayer] = useState<UserRole>(UserRole.PARTNER_1);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+
+  const columns = useMemo(() => {
+    if (!csvRows || csvRows.length === 0) return [];
+    const width = Math.max(...csvRows.slice(0, 10).map(r => r.length));
+    return Array.from({ length: width }, (_, i) => profile.hasHeader ? (csvRows[0][i] || `Column ${i + 1}`) : `Column ${i + 1}: ${csvRows[0][i] || ''}`);
+  }, [csvRows, profile.hasHeader]);
+
+  const categoryModel = useMemo(() => learnCategories(transactions), [transactions]);
+
+  const rows = useMemo(() => ofxRows || (csvRows ? rowsFromCsv(csvRows, profile) : []), [csvRows, ofxRows, profile]);
+  // Kept apart from the preview so entries arriving by sync mid-review flag duplicates without resetting the choices below
+  const duplicates = useMemo(() => new Map(rows.map(r => [r.key, findDuplicate(r, transactions)])), [rows, transactions]);
+
+  // Rebuilt only when the file or the column mapping changes, so ticks and category picks survive; confident suggestions are filled in
+  useEffect(() => {
+    const defaultCategory = pickerCategories[0]?.name || '';
+    setPreview(rows.map(r => {
+      const suggestion = suggestCategory(r.description, categoryModel, categorization, pickerCategories);
+      const categoryName = suggestion && suggestion.confidence >= categorization.autoApplyThreshold ? suggestion.categoryName : defaultCategory;
+      return { ...r, include: r.amount > 0 && !duplicates.get(r.key), categoryName, suggestion };
+    }));
+  }, [rows]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    if (isOfx(file.name, text)) {
+      setCsvRows(null);
+      setOfxRows(parseOfx(text));
+    } else {
+      setOfxRows(null);
+      setCsvRows(parseCsv(text));
+    }
+  };
+
+  const updateProfile = (patch: Partial<ImportProfile>) => setProfile(prev => ({ ...prev, ...patch }));
+
+  const handleSaveProfile = () => {
+    const name = prompt("Save this column mapping as (bank or card name):", profile.name);
+    if (!name) return;
+    const saved = { ...profile, id: profile.id || generateId(), name };
+    setProfile(saved);
+    setProfiles(prev => prev.some(p => p.id === saved.id) ? prev.map(p => p.id === saved.id ? saved : p) : [...prev, saved]);
+  };
+
+  const updateRow = (key: string, patch: Partial<PreviewRow>) => setPreview(prev => prev.map(r => r.key === key ? { ...r, ...patch } : r));
+
+  const selected = preview.filter(r => r.include && r.amount > 0);
+  const selectedTotal = selected.reduce((acc, r) => acc + r.amount, 0);
+
+  const handleImport = () => {
+    if (selected.length === 0) return alert("Select at least one row to import.");
+    const updatedAt = new Date().toISOString();
+    onImport(selected.map(r => ({
+      id: generateId(),
+      updatedAt,
+      description: r.description,
+      date: new Date(r.date).toISOString(),
+      userId: payer,
+      splits: [{ categoryName: r.categoryName, amount: Number(r.amount.toFixed(2)) }],
+      totalAmount: Number(r.amount.toFixed(2)),
+    })));
+    alert(`Imported ${selected.length} entries.`);
+    navigate('/transactions');
+  };
+
+  return (
+    <div className="space-y-8 animate-in pb-10">
+      <header className="flex flex-col gap-4 pt-4">
+        <Link to="/transactions" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">← Timeline</Link>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Import</h1>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest leading-relaxed">CSV, OFX or QFX statements are read on this device only and never uploaded.</p>
+        <label className="w-full bg-slate-900 text-white px-6 py-6 rounded-3xl font-black uppercase text-xs tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3 cursor-pointer">
+          <span className="text-xl">📄</span> {fileName || 'Choose Statement'}
+          <input type="file" accept=".csv,.ofx,.qfx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+      </header>
+
+      {csvRows && (
+        <Card title="Column Mapping">
+          <div className="space-y-3">
+            <select value={profile.id} onChange={e => {
+              const found = profiles.find(p => p.id === e.target.value);
+              setProfile(found || { id: '', name: '', ...DEFAULT_IMPORT_PROFILE });
+            }} className="w-full px-4 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+              <option value="">New mapping</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500">
+              <input type="checkbox" checked={profile.hasHeader} onChange={e => updateProfile({ hasHeader: e.target.checked })} />
+              First row is a header
+            </label>
+            <ColumnSelect label="Date" value={profile.dateColumn} columns={columns} onChange={v => updateProfile({ dateColumn: v })} />
+            <ColumnSelect label="Description" value={profile.descriptionColumn} columns={columns} onChange={v => updateProfile({ descriptionColumn: v })} />
+            <ColumnSelect label="Amount" value={profile.amountColumn} columns={columns} onChange={v => updateProfile({ amountColumn: v })} allowNone />
+            {profile.amountColumn >= 0 ? (
+              <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500">
+                <input type="checkbox" checked={profile.expensesAreNegative} onChange={e => updateProfile({ expensesAreNegative: e.target.checked })} />
+                Purchases are negative amounts
+              </label>
+            ) : (
+              <>
+                <ColumnSelect label="Debit" value={profile.debitColumn} columns={columns} onChange={v => updateProfile({ debitColumn: v })} allowNone />
+                <ColumnSelect label="Credit" value={profile.creditColumn} columns={columns} onChange={v => updateProfile({ creditColumn: v })} allowNone />
+              </>
+            )}
+            <label className="flex items-center gap-3">
+              <span className="w-24 text-[9px] font-black uppercase text-slate-400 tracking-widest">Date format</span>
+              <select value={profile.dateFormat} onChange={e => updateProfile({ dateFormat: e.target.value as DateFormat })} className="flex-1 px-3 py-2 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+                <option value="auto">Auto-detect</option>
+                <option value="MDY">MM/DD/YYYY</option>
+                <option value="DMY">DD/MM/YYYY</option>
+                <option value="YMD">YYYY-MM-DD</option>
+              </select>
+            </label>
+            <button onClick={handleSaveProfile} className="w-full py-3 rounded-2xl bg-slate-100 text-slate-900 font-black uppercase text-[10px] tracking-widest">💾 {profile.id ? `Update "${profile.name}"` : 'Save Mapping'}</button>
+          </div>
+        </Card>
+      )}
+
+      {(csvRows || ofxRows) && (
+        <Card title={`Preview · ${preview.length} rows`}>
+          <div className="space-y-4">
+            <select value={payer} onChange={e => setPayer(e.target.value as UserRole)} className="w-full px-4 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+              <option value={UserRole.PARTNER_1}>Paid by {partnerNames[UserRole.PARTNER_1]}</option>
+              <option value={UserRole.PARTNER_2}>Paid by {partnerNames[UserRole.PARTNER_2]}</option>
+            </select>
+            <div className="space-y-2 max-h-[420px] overflow-y-auto no-scrollbar">
+              {preview.length === 0 && <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No readable rows. Check the column mapping.</p>}
+              {preview.map(r => {
+                const duplicateOf = duplicates.get(r.key);
+                return (
+                  <div key={r.key} className={`p-3 rounded-2xl border ${duplicateOf ? 'border-amber-200 bg-amber-50' : 'border-slate-50 bg-white'} ${r.amount <= 0 ? 'opacity-40' : ''}`}>
+                    <div className="flex items-center gap-3">
+                      <input type="checkbox" checked={r.include} disabled={r.amount <= 0} onChange={e => updateRow(r.key, { include: e.target.checked })} />
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-bold text-slate-900 text-sm truncate">{r.description}</h4>
+                        <p className="text-[10px] font-black text-slate-400 uppercase">
+                          {r.date}
+                          {r.amount <= 0 && ' · credit, skipped'}
+                          {duplicateOf && ` · possible duplicate of "${duplicateOf.description}"`}
+                        </p>
+                      </div>
+                      <span className="text-sm font-black text-slate-900">{formatCurrency(Math.abs(r.amount), baseCurrency)}</span>
+                    </div>
+                    {r.include && (
+                      <select value={r.categoryName} onChange={e => updateRow(r.key, { categoryName: e.target.value })} className="mt-2 w-full px-3 py-2 rounded-xl bg-slate-50 font-bold outline-none text-xs">
+                        {pickerCategories.map(c => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+                      </select>
+                    )}
+                    {r.include && r.suggestion && (r.suggestion.categoryName === r.categoryName ? (
+                      <p className="mt-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">✨ {r.suggestion.reason}</p>
+                    ) : (
+                      <button onClick={() => updateRow(r.key, { categoryName: r.suggestion!.categoryName })} className="mt-1 text-[9px] font-black text-indigo-500 uppercase tracking-widest">
+                        Suggested: {r.suggestion.categoryName} · {Math.round(r.suggestion.confidence * 100)}%
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+            <button onClick={handleImport} className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">
+              Import {selected.length} · {formatCurrency(selectedTotal, baseCurrency)}
+            </button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+});
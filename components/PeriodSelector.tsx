@@ -0,0 +1,39 @@
+import React, { memo } from 'react';
+import { Period, PeriodKind, currentPeriod, shiftPeriod, describePeriod } from '../utils/period';
+
+const KINDS: { kind: PeriodKind; label: string }[] = [
+  { kind: 'month', label: 'Month' },
+  { kind: 'quarter', label: 'Quarter' },
+  { kind: 'year', label: 'Year' },
+  { kind: 'custom', label: 'Custom' },
+];
+
+export const PeriodSelector = memo(({ period, timeZone, onChange }: { period: Period, timeZone: string, onChange: (p: Period) => void }) => {
+  const selectKind = (kind: PeriodKind) => {
+    if (kind === period.kind) return;
+    // Custom starts from whatever range is on screen so the user only has to nudge it
+    onChange(kind === 'custom' ? { ...period, kind } : currentPeriod(kind, timeZone));
+  };
+
+  return (
+    <div className="bg-white rounded-[32px] shadow-sm border border-slate-100 p-4 space-y-3">
+      <div className="grid grid-cols-4 gap-1 bg-slate-50 rounded-2xl p-1">
+        {KINDS.map(k => (
+          <button key={k.kind} onClick={() => selectKind(k.kind)} className={`py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${period.kind === k.kind ? 'bg-slate-900 text-white shadow' : 'text-slate-400'}`}>{k.label}</button>
+        ))}
+      </div>
+      {period.kind === 'custom' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <input type="date" value={period.start} max={period.end} onChange={e => e.target.value && onChange({ ...period, start: e.target.value })} className="w-full px-3 py-2 rounded-xl bg-slate-50 font-bold text-sm outline-none" />
+          <input type="date" value={period.end} min={period.start} onChange={e => e.target.value && onChange({ ...period, end: e.target.value })} className="w-full px-3 py-2 rounded-xl bg-slate-50 font-bold text-sm outline-none" />
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <button onClick={() => onChange(shiftPeriod(period, -1))} className="w-10 h-10 rounded-full bg-slate-50 text-slate-500 font-black">‹</button>
+          <button onClick={() => onChange(currentPeriod(period.kind as Exclude<PeriodKind, 'custom'>, timeZone))} className="text-sm font-black text-slate-900 tracking-tight">{describePeriod(period)}</button>
+          <button onClick={() => onChange(shiftPeriod(period, 1))} className="w-10 h-10 rounded-full bg-slate-50 text-slate-500 font-black">›</button>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,54 @@
+import React, { useState, useEffect, memo } from 'react';
+import { loadReceipt } from '../utils/storage';
+
+/** Take or pick a receipt photo, and show the one already linked to the entry. */
+export const ReceiptCapture = memo(({ receiptId, image, scanning, canExtract, onPhoto }: { receiptId?: string, image: Blob | null, scanning: boolean, canExtract: boolean, onPhoto: (file: File) => void }) => {
+  const [stored, setStored] = useState<Blob | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    setStored(null);
+    setMissing(false);
+    if (!receiptId || image) return;
+    let cancelled = false;
+    loadReceipt(receiptId)
+      .then(blob => {
+        if (cancelled) return;
+        setStored(blob);
+        setMissing(!blob);
+      })
+      .catch(err => console.error("Could not load receipt", err));
+    return () => { cancelled = true; };
+  }, [receiptId, image]);
+
+  const shown = image || stored;
+  useEffect(() => {
+    if (!shown) return setUrl('');
+    const objectUrl = URL.createObjectURL(shown);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [shown]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onPhoto(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className={`block w-full py-4 rounded-2xl border border-dashed text-center font-black uppercase text-[10px] tracking-widest cursor-pointer ${scanning ? 'border-indigo-200 text-indigo-400 animate-pulse' : 'border-slate-200 text-slate-500'}`}>
+        {scanning ? 'Reading receipt…' : shown ? '📷 Retake Receipt' : canExtract ? '📷 Scan Receipt' : '📷 Attach Receipt'}
+        <input type="file" accept="image/*" capture="environment" onChange={handleFile} disabled={scanning} className="hidden" />
+      </label>
+      {url && (
+        <button type="button" onClick={() => setExpanded(v => !v)} className="block w-full">
+          <img src={url} alt="Receipt" className={`w-full rounded-2xl object-cover object-top border border-slate-100 ${expanded ? '' : 'max-h-32'}`} />
+        </button>
+      )}
+      {missing && <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest px-2">🧾 The receipt photo is on the other phone</p>}
+    </div>
+  );
+});
@@ -0,0 +1,183 @@
+import React, { useState, useMemo, memo } from 'react';
+import { Link } from 'react-router-dom';
+import { RecurringTemplate, RecurrenceFrequency, CategoryDefinition, PartnerNames, TransactionSplit, UserRole } from '../types';
+import { Card } from './UI';
+import { upcomingCharges, describeRule, todayKey } from '../utils/recurring';
+import { formatCurrency } from '../utils/currency';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+const RecurringModal = ({ initial, categories, partnerNames, baseCurrency, onSave, onClose }: { initial?: RecurringTemplate, categories: CategoryDefinition[], partnerNames: PartnerNames, baseCurrency: string, onSave: (t: RecurringTemplate) => void, onClose: () => void }) => {
+  const [description, setDescription] = useState(initial?.description || '');
+  const [userId, setUserId] = useState<UserRole>(initial?.userId || UserRole.PARTNER_1);
+  const [splits, setSplits] = useState<TransactionSplit[]>(initial?.splits.map(s => ({ ...s })) || [{ categoryName: categories[0]?.name || '', amount: 0 }]);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(initial?.rule.frequency || 'monthly');
+  const [every, setEvery] = useState(initial?.rule.interval || 1);
+  const [startDate, setStartDate] = useState(initial?.rule.startDate || todayKey());
+  const [dayOfMonth, setDayOfMonth] = useState<number | undefined>(initial?.rule.dayOfMonth);
+  const [endDate, setEndDate] = useState(initial?.rule.endDate || '');
+
+  const total = splits.reduce((acc, s) => acc + (Number(s.amount) || 0), 0);
+
+  const updateSplit = (index: number, patch: Partial<TransactionSplit>) => {
+    setSplits(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (total <= 0) return alert("Total must be greater than 0");
+    if (endDate && endDate < startDate) return alert("End date must be after the start date");
+    onSave({
+      ...(initial || {}),
+      id: initial?.id || generateId(),
+      updatedAt: new Date().toISOString(),
+      description: description.trim() || 'Recurring bill',
+      userId,
+      splits: splits.filter(s => Number(s.amount) > 0).map(s => ({ ...s, amount: Number(s.amount) })),
+      rule: {
+        frequency,
+        interval: Math.max(1, every),
+        startDate,
+        ...(frequency === 'monthly' && dayOfMonth ? { dayOfMonth } : {}),
+        ...(endDate ? { endDate } : {}),
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 backdrop-blur-[2px] p-4">
+      <div className="bg-white rounded-[40px] w-full max-w-md p-8 shadow-2xl animate-in max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-black tracking-tight">{initial ? 'Edit Bill' : 'New Recurring Bill'}</h2>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <input required value={description} onChange={e => setDescription(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Rent, Netflix, Insurance…" />
+          <select value={userId} onChange={e => setUserId(e.target.value as UserRole)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none">
+            <option value={UserRole.PARTNER_1}>Paid by {partnerNames[UserRole.PARTNER_1]}</option>
+            <option value={UserRole.PARTNER_2}>Paid by {partnerNames[UserRole.PARTNER_2]}</option>
+          </select>
+          <div className="space-y-3">
+            {splits.map((split, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <select value={split.categoryName} onChange={e => updateSplit(index, { categoryName: e.target.value })} className="flex-1 px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none text-sm">
+                  {categories.map(c => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+                </select>
+                <input type="number" step="0.01" required value={split.amount || ''} onChange={e => updateSplit(index, { amount: Number(e.target.value) })} className="w-24 px-4 py-4 rounded-2xl bg-slate-50 font-black text-right outline-none" placeholder="0.00" />
+                {splits.length > 1 && <button type="button" onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))} className="text-slate-300 hover:text-rose-400 font-bold text-lg">×</button>}
+              </div>
+            ))}
+            <button type="button" onClick={() => setSplits(prev => [...prev, { categoryName: categories[0]?.name || '', amount: 0 }])} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest px-2">+ Add Split</button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <select value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none">
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+              <option value="yearly">Yearly</option>
+            </select>
+            <label className="flex items-center gap-2 px-4 rounded-2xl bg-slate-50 text-[10px] font-black uppercase text-slate-400">
+              Every
+              <input type="number" min={1} value={every} onChange={e => setEvery(Number(e.target.value) || 1)} className="w-full bg-transparent font-black text-right text-slate-900 outline-none" />
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">Starts</span>
+              <input type="date" required value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">Ends (optional)</span>
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+            </label>
+          </div>
+          {frequency === 'monthly' && (
+            <label className="flex items-center gap-3 px-4 py-4 rounded-2xl bg-slate-50 text-[10px] font-black uppercase text-slate-400">
+              Day of month
+              <input type="number" min={1} max={31} value={dayOfMonth || ''} onChange={e => setDayOfMonth(Number(e.target.value) || undefined)} placeholder={startDate.split('-')[2]} className="flex-1 bg-transparent font-black text-right text-slate-900 outline-none" />
+            </label>
+          )}
+          <div className="bg-slate-900 rounded-[32px] p-6 text-white flex justify-between items-center">
+            <span className="text-[10px] font-black uppercase opacity-50">Per Charge</span>
+            <span className="text-3xl font-black">{formatCurrency(total, baseCurrency)}</span>
+          </div>
+          <button type="submit" className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">Save Bill</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export const RecurringView = memo(({ templates, categories, partnerNames, baseCurrency, onSave, onDelete }: { templates: RecurringTemplate[], categories: CategoryDefinition[], partnerNames: PartnerNames, baseCurrency: string, onSave: (t: RecurringTemplate) => void, onDelete: (id: string) => void }) => {
+  const [editing, setEditing] = useState<RecurringTemplate | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const pickerCategories = useMemo(() => categories.filter(c => !c.archived), [categories]);
+  const upcoming = useMemo(() => upcomingCharges(templates, 30), [templates]);
+  const upcomingTotal = upcoming.reduce((acc, c) => acc + c.amount, 0);
+
+  const openEditor = (t: RecurringTemplate | null) => {
+    setEditing(t);
+    setIsModalOpen(true);
+  };
+
+  return (
+    <div className="space-y-8 animate-in pb-10">
+      <header className="flex flex-col gap-4 pt-4">
+        <Link to="/transactions" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">← Timeline</Link>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Recurring</h1>
+        <button 
+          onClick={() => openEditor(null)} 
+          className="w-full bg-slate-900 text-white px-6 py-6 rounded-3xl font-black uppercase text-xs tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+        >
+          <span className="text-xl">+</span> Add Recurring Bill
+        </button>
+      </header>
+
+      <Card title={`Next 30 Days · ${formatCurrency(upcomingTotal, baseCurrency)}`} accent="bg-indigo-500">
+        {upcoming.length === 0 ? (
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Nothing due</p>
+        ) : (
+          <div className="space-y-3">
+            {upcoming.map(c => (
+              <div key={`${c.template.id}-${c.date}`} className="flex justify-between items-center">
+                <div>
+                  <h4 className="font-bold text-slate-900 text-sm">{c.template.description}</h4>
+                  <p className="text-[10px] font-black text-slate-400 uppercase">
+                    {new Date(`${c.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} · {partnerNames[c.template.userId]}
+                  </p>
+                </div>
+                <span className="text-sm font-black text-slate-900">{formatCurrency(c.amount, baseCurrency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <div className="space-y-4">
+        {templates.length === 0 ? (
+          <div className="text-center py-20 bg-white rounded-[40px] border border-dashed border-slate-200">
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No recurring bills</p>
+          </div>
+        ) : templates.map(t => (
+          <div key={t.id} className={`bg-white p-5 rounded-[24px] border border-slate-50 flex items-center justify-between shadow-sm ${t.paused ? 'opacity-50' : ''}`}>
+            <button onClick={() => openEditor(t)} className="flex items-center gap-4 text-left">
+              <div className="w-10 h-10 rounded-xl bg-slate-50 flex items-center justify-center text-lg">{categories.find(c => c.name === t.splits[0]?.categoryName)?.icon || '🔁'}</div>
+              <div>
+                <h4 className="font-bold text-slate-900 text-sm">{t.description}</h4>
+                <p className="text-[10px] font-black text-slate-400 uppercase">{describeRule(t.rule)} · {partnerNames[t.userId]}</p>
+              </div>
+            </button>
+            <div className="flex items-center gap-3">
+              <span className="text-lg font-black text-slate-900">{formatCurrency(t.splits.reduce((acc, s) => acc + s.amount, 0), baseCurrency)}</span>
+              <button onClick={() => onSave({ ...t, paused: !t.paused, updatedAt: new Date().toISOString() })} className="text-[9px] font-black uppercase text-slate-400 hover:text-slate-900">{t.paused ? 'Resume' : 'Pause'}</button>
+              <button onClick={() => { if (confirm(`Stop "${t.description}"? Entries already logged are kept.`)) onDelete(t.id); }} className="text-slate-200 hover:text-rose-400 p-1 font-bold text-xl">×</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isModalOpen && <RecurringModal initial={editing || undefined} categories={pickerCategories} partnerNames={partnerNames} baseCurrency={baseCurrency} onSave={onSave} onClose={() => setIsModalOpen(false)} />}
+    </div>
+  );
+});
@@ -0,0 +1,145 @@
+import React, { useState, useMemo, memo } from 'react';
+import { Link } from 'react-router-dom';
+import { Transaction, Settlement, SettlementRules, PartnerNames, UserRole } from '../types';
+import { Card } from './UI';
+import { buildLedger, describeBalance, monthKey } from '../utils/settlement';
+import { formatCurrency } from '../utils/currency';
+import { dayKeyIn } from '../utils/period';
+
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+const formatMonth = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+export const SettleUpModal = memo(({ balance, partnerNames, timeZone, baseCurrency, onSave, onClose }: { balance: number, partnerNames: PartnerNames, timeZone: string, baseCurrency: string, onSave: (s: Settlement) => void, onClose: () => void }) => {
+  // Default to the debtor paying off the full outstanding balance
+  const [payer, setPayer] = useState<UserRole>(balance >= 0 ? UserRole.PARTNER_1 : UserRole.PARTNER_2);
+  const [amount, setAmount] = useState<number>(Number(Math.abs(balance).toFixed(2)));
+  const [date, setDate] = useState(() => dayKeyIn(new Date().toISOString(), timeZone));
+  const [note, setNote] = useState('');
+  const payee = payer === UserRole.PARTNER_1 ? UserRole.PARTNER_2 : UserRole.PARTNER_1;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(amount > 0)) return alert("Amount must be greater than 0");
+    onSave({
+      id: generateId(),
+      updatedAt: new Date().toISOString(),
+      payer,
+      payee,
+      amount: Number(amount),
+      date: new Date(date).toISOString(),
+      note: note.trim(),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 backdrop-blur-[2px] p-4">
+      <div className="bg-white rounded-[40px] w-full max-w-md p-8 shadow-2xl animate-in max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-black tracking-tight">Settle Up</h2>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">{describeBalance(balance, partnerNames, baseCurrency)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <select value={payer} onChange={e => setPayer(e.target.value as UserRole)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none">
+              <option value={UserRole.PARTNER_1}>{partnerNames[UserRole.PARTNER_1]} paid</option>
+              <option value={UserRole.PARTNER_2}>{partnerNames[UserRole.PARTNER_2]} paid</option>
+            </select>
+            <input type="date" value={date} onChange={e => setDate(e.target.value)} required className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+          </div>
+          <input value={note} onChange={e => setNote(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Note (e.g. Venmo, cash)" />
+          <div className="bg-slate-900 rounded-[32px] p-6 text-white flex justify-between items-center gap-4">
+            <span className="text-[10px] font-black uppercase opacity-50">To {partnerNames[payee]}</span>
+            <input type="number" step="0.01" required value={amount || ''} onChange={e => setAmount(Number(e.target.value))} className="w-32 bg-transparent text-3xl font-black text-right outline-none" placeholder="0.00" />
+          </div>
+          <button type="submit" className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">Record Payment</button>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export const SettlementHistory = memo(({ transactions, settlements, settlementRules, partnerNames, timeZone, baseCurrency, onAddSettlement, onDeleteSettlement }: { transactions: Transaction[], settlements: Settlement[], settlementRules: SettlementRules, partnerNames: PartnerNames, timeZone: string, baseCurrency: string, onAddSettlement: (s: Settlement) => void, onDeleteSettlement: (id: string) => void }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const ledger = useMemo(() => buildLedger(transactions, settlements, settlementRules, timeZone), [transactions, settlements, settlementRules, timeZone]);
+  const outstanding = ledger[0]?.outstanding || 0;
+
+  const paymentsByMonth = useMemo(() => {
+    const g: Record<string, Settlement[]> = {};
+    [...settlements].sort((a, b) => b.date.localeCompare(a.date)).forEach(s => {
+      const key = monthKey(s.date, timeZone);
+      if (!g[key]) g[key] = [];
+      g[key].push(s);
+    });
+    return g;
+  }, [settlements, timeZone]);
+
+  // Ledger figures are from PARTNER_1's side: positive means owed to / paid to PARTNER_2
+  const signed = (value: number) => formatCurrency(value, baseCurrency);
+
+  return (
+    <div className="space-y-8 animate-in pb-10">
+      <header className="flex flex-col gap-4 pt-4">
+        <Link to="/" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">← Overview</Link>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Settlements</h1>
+        <Card title="Outstanding Balance" accent="bg-indigo-500">
+          <span className="text-2xl font-black text-slate-900 tracking-tight leading-tight">{describeBalance(outstanding, partnerNames, baseCurrency)}</span>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">All months, after payments</p>
+        </Card>
+        <button 
+          onClick={() => setIsModalOpen(true)} 
+          className="w-full bg-slate-900 text-white px-6 py-6 rounded-3xl font-black uppercase text-xs tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+        >
+          <span className="text-xl">🤝</span> Settle Up
+        </button>
+      </header>
+
+      <div className="space-y-6">
+        {ledger.length === 0 ? (
+          <div className="text-center py-20 bg-white rounded-[40px] border border-dashed border-slate-200">
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No history yet</p>
+          </div>
+        ) : ledger.map(month => (
+          <Card key={month.key} title={formatMonth(month.key)}>
+            <div className="space-y-1">
+              {[
+                { label: 'Carried In', value: month.carriedIn },
+                { label: 'Owed This Month', value: month.owed },
+                { label: 'Paid Back', value: month.paid },
+              ].map(row => (
+                <div key={row.label} className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                  <span>{row.label}:</span>
+                  <span>{signed(row.value)}</span>
+                </div>
+              ))}
+            </div>
+            <p className="pt-3 mt-3 border-t border-slate-50 text-sm font-black text-slate-900">{describeBalance(month.outstanding, partnerNames, baseCurrency)}</p>
+            {(paymentsByMonth[month.key] || []).map(s => (
+              <div key={s.id} className="mt-3 bg-slate-50 p-4 rounded-[20px] flex items-center justify-between">
+                <div>
+                  <h4 className="font-bold text-slate-900 text-sm">{partnerNames[s.payer]} → {partnerNames[s.payee]}</h4>
+                  <p className="text-[10px] font-black text-slate-400 uppercase">
+                    {new Date(s.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}{s.note && ` · ${s.note}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="text-lg font-black text-slate-900">{formatCurrency(s.amount, baseCurrency)}</span>
+                  <button onClick={() => onDeleteSettlement(s.id)} className="text-slate-200 hover:text-rose-400 p-1 font-bold text-xl">×</button>
+                </div>
+              </div>
+            ))}
+          </Card>
+        ))}
+      </div>
+
+      {isModalOpen && <SettleUpModal balance={outstanding} partnerNames={partnerNames} timeZone={timeZone} baseCurrency={baseCurrency} onSave={onAddSettlement} onClose={() => setIsModalOpen(false)} />}
+    </div>
+  );
+});
@@ -0,0 +1,43 @@
+import React, { useMemo, memo } from 'react';
+import { Link } from 'react-router-dom';
+import { Transaction, CategoryDefinition, PartnerNames } from '../types';
+import { trashedRecords, TRASH_RETENTION_DAYS } from '../utils/snapshots';
+import { formatCurrency } from '../utils/currency';
+
+export const TrashView = memo(({ transactions, categories, partnerNames, baseCurrency, onRestore }: { transactions: Transaction[], categories: CategoryDefinition[], partnerNames: PartnerNames, baseCurrency: string, onRestore: (id: string) => void }) => {
+  const trashed = useMemo(() => trashedRecords(transactions), [transactions]);
+
+  return (
+    <div className="space-y-8 animate-in pb-10">
+      <header className="flex flex-col gap-4 pt-4">
+        <Link to="/transactions" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">← Timeline</Link>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Trash</h1>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Deleted entries stay here for {TRASH_RETENTION_DAYS} days</p>
+      </header>
+
+      <div className="space-y-4">
+        {trashed.length === 0 ? (
+          <div className="text-center py-20 bg-white rounded-[40px] border border-dashed border-slate-200">
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Trash is empty</p>
+          </div>
+        ) : trashed.map(t => (
+          <div key={t.id} className="bg-white p-5 rounded-[24px] border border-slate-50 flex items-center justify-between shadow-sm">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 rounded-xl bg-slate-50 flex items-center justify-center text-lg opacity-50">{categories.find(c => c.name === t.splits[0]?.categoryName)?.icon || '💰'}</div>
+              <div>
+                <h4 className="font-bold text-slate-900 text-sm">{t.description}</h4>
+                <p className="text-[10px] font-black text-slate-400 uppercase">
+                  {partnerNames[t.userId]} · {t.date.split('T')[0]} · Deleted {new Date(t.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-lg font-black text-slate-400">{formatCurrency(t.totalAmount, baseCurrency)}</span>
+              <button onClick={() => onRestore(t.id)} className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-700">Restore</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
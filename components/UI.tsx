@@ -1,17 +1,18 @@
 import React, { memo } from 'react';
 
-export const Card = memo(({ title, children, className = "", accent, onClick }: { 
+export const Card = memo(({ title, children, className = "", accent, accentColor, onClick }: { 
   title: string; 
   children: React.ReactNode; 
   className?: string; 
   accent?: string; 
+  accentColor?: string; 
   onClick?: () => void 
 }) => (
   <div 
     onClick={onClick}
     className={`bg-white rounded-[32px] shadow-sm border border-slate-100 p-6 relative overflow-hidden transition-all duration-300 hover:shadow-md ${onClick ? 'cursor-pointer active:scale-[0.98]' : ''} ${className}`}
   >
-    {accent && <div className={`absolute top-0 left-0 w-1.5 h-full ${accent}`} />}
+    {(accent || accentColor) && <div className={`absolute top-0 left-0 w-1.5 h-full ${accent || ''}`} style={accentColor ? { backgroundColor: accentColor } : undefined} />}
     <div className="mb-4">
       <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{title}</h3>
     </div>
@@ -26,4 +27,11 @@ export const ProgressBar = memo(({ progress, color }: { progress: number; color:
       style={{ width: `${Math.min(progress, 100)}%`, backgroundColor: color }}
     />
   </div>
-));
\ No newline at end of file
+));
+export const Toast = memo(({ message, actionLabel, onAction, onDismiss }: { message: string; actionLabel?: string; onAction?: () => void; onDismiss: () => void }) => (
+  <div className="fixed bottom-32 left-1/2 -translate-x-1/2 z-50 w-[90%] max-w-sm bg-slate-900 text-white rounded-[24px] shadow-2xl px-5 py-4 flex items-center gap-3 animate-in">
+    <span className="flex-1 text-[11px] font-bold">{message}</span>
+    {actionLabel && onAction && <button onClick={onAction} className="text-[10px] font-black uppercase tracking-widest text-indigo-300">{actionLabel}</button>}
+    <button onClick={onDismiss} className="text-slate-500 hover:text-slate-300 font-bold text-lg">×</button>
+  </div>
+));
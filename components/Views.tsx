@@ -1,46 +1,97 @@
 import React, { useState, useMemo, memo, useEffect, useRef } from 'react';
-import { Transaction, CategoryDefinition, UserRole, PartnerNames, Goal, TransactionSplit } from '../types';
-import { analyzeSpending, detectSubscriptions } from '../services/geminiService';
+import { Link } from 'react-router-dom';
+import { Transaction, CategoryDefinition, UserRole, PartnerNames, PartnerProfiles, PartnerProfile, HouseholdSettings, CategorizationSettings, ExchangeRate, Goal, GoalContribution, TransactionSplit, SettlementRules, SplitRule, Settlement, Budgets, RecurringTemplate } from '../types';
+import { analyzeSpending, askCoach, reviewRecurringCharges, extractReceipt, parseQuickEntryWithAI } from '../services/geminiService';
 import { Card, ProgressBar } from './UI';
-import { GOOGLE_APPS_SCRIPT_CODE, performSync } from '../utils/sync';
+import { SettleUpModal } from './Settlements';
+import { CategoryManager } from './CategoryManager';
+import { BackupPanel } from './BackupPanel';
+import { BudgetEditor } from './BudgetEditor';
+import { AlertSettings } from './Alerts';
+import { CurrencySettings } from './CurrencySettings';
+import { CategoryRulesEditor } from './CategoryRulesEditor';
+import { ReceiptCapture } from './ReceiptCapture';
+import { CoachTips, CoachChat } from './Coach';
+import { BackupData, RestoreMode } from '../utils/backup';
+import { Snapshot } from '../utils/snapshots';
+import { SyncAuth, googleAppsScriptCode } from '../utils/sync';
+import { SyncOutcome } from '../utils/offline';
+import { generateSecret } from '../utils/syncAuth';
+import { backendFor } from '../utils/syncBackend';
+import { computeSettlement, buildLedger, describeBalance, describeSplitRule, incomeShare } from '../utils/settlement';
+import { projectGoal } from '../utils/goals';
+import { Period, currentPeriod, inPeriod, periodMonths, monthsInPeriod, describePeriod, isValidTimeZone, dayKeyIn } from '../utils/period';
+import { indexSpend, plannedSpend, budgetStatus } from '../utils/budgets';
+import { FeedFilters, FeedSort, EMPTY_FEED_FILTERS, activeFilterCount, feedAmount, filterTransactions } from '../utils/feed';
+import { rateFor, toBase, formatCurrency, currencySymbol, isForeign, isCurrencyCode } from '../utils/currency';
+import { prepareReceiptImage, splitsFromReceipt } from '../utils/receipts';
+import { QuickEntryContext, QuickEntryDraft, buildMerchantIndex, parseQuickEntry } from '../utils/quickEntry';
+import { learnCategories, suggestCategory } from '../utils/categorize';
+import { DetectedCharge, detectRecurringCharges, templateFromCharge, monthlyCost } from '../utils/subscriptions';
+import { CoachSession, EMPTY_COACH_SESSION, buildCoachFacts } from '../utils/coach';
+import { saveReceipt } from '../utils/storage';
+import { PeriodSelector } from './PeriodSelector';
 
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
+const SplitRuleSelect = ({ value, onChange, partnerNames, className = "" }: { value: SplitRule | undefined, onChange: (rule: SplitRule | undefined) => void, partnerNames: PartnerNames, className?: string }) => (
+  <div className={`flex gap-2 items-center ${className}`}>
+    <select
+      value={value ? value.kind : 'default'}
+      onChange={e => {
+        const kind = e.target.value;
+        if (kind === 'personal') onChange({ kind: 'personal' });
+        else if (kind === 'shared') onChange({ kind: 'shared', partner1Share: 0.5 });
+        else onChange(undefined);
+      }}
+      className="flex-1 px-4 py-2 rounded-xl bg-slate-50 font-bold outline-none text-sm"
+    >
+      <option value="default">Default split</option>
+      <option value="personal">100% personal</option>
+      <option value="shared">Custom %</option>
+    </select>
+    {value?.kind === 'shared' && (
+      <div className="relative" title={`${partnerNames[UserRole.PARTNER_1]}'s share`}>
+        <input type="number" min={0} max={100} value={Math.round(value.partner1Share * 100)} onChange={e => onChange({ kind: 'shared', partner1Share: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })} className="w-20 pl-3 pr-6 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" />
+        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-300 font-bold">%</span>
+      </div>
+    )}
+  </div>
+);
+
 interface DashboardProps {
   transactions: Transaction[];
-  budgets: Record<string, number>;
+  budgets: Budgets;
   categories: CategoryDefinition[];
   partnerNames: PartnerNames;
   goals: Goal[];
+  goalContributions: GoalContribution[];
+  settlements: Settlement[];
+  settlementRules: SettlementRules;
+  timeZone: string;
+  baseCurrency: string;
   isSynced: boolean;
   lastSync: string;
   syncUrl: string;
-  setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
-  setBudgets: React.Dispatch<React.SetStateAction<Record<string, number>>>;
-  setLastSync: (time: string) => void;
+  onSync: () => Promise<SyncOutcome>;
+  onAddSettlement: (s: Settlement) => void;
 }
 
 export const Dashboard = memo(({ 
-  transactions, budgets, categories, partnerNames, goals, isSynced, lastSync, syncUrl, setTransactions, setBudgets, setLastSync
+  transactions, budgets, categories, partnerNames, goals, goalContributions, settlements, settlementRules, timeZone, baseCurrency, isSynced, lastSync, syncUrl, onSync, onAddSettlement
 }: DashboardProps) => {
   const [isSyncing, setIsSyncing] = useState(false);
-  const now = new Date();
-  const currentMonth = now.getUTCMonth(); 
-  const currentYear = now.getUTCFullYear();
+  const [isSettleOpen, setIsSettleOpen] = useState(false);
+  const [period, setPeriod] = useState<Period>(() => currentPeriod('month', timeZone));
 
   const handleSync = async () => {
-    if (!syncUrl || !syncUrl.includes('exec')) {
+    if (!backendFor(syncUrl)) {
       alert("Please set a valid Sync URL in Setup first!");
       return;
     }
     setIsSyncing(true);
     try {
-      const d = await performSync(syncUrl, transactions, budgets);
-      if (d.transactions) {
-        setTransactions(d.transactions);
-        if (d.budgets) setBudgets(d.budgets);
-        setLastSync(new Date().toLocaleTimeString());
-      }
+      await onSync();
     } catch (err) {
       alert("Cloud Sync failed. Your local data is safe.");
     } finally {
@@ -52,25 +103,35 @@ export const Dashboard = memo(({
     const totals: Record<string, number> = {};
     categories.forEach((c: CategoryDefinition) => totals[c.name] = 0);
     let totalCombined = 0;
-    let tracyPaidThisMonth = 0;
+    const periodTransactions: Transaction[] = [];
+    const months = monthsInPeriod(period);
 
     for (const t of transactions) {
-      const d = new Date(t.date);
-      if (d.getUTCMonth() === currentMonth && d.getUTCFullYear() === currentYear) {
+      if (inPeriod(t.date, period, timeZone)) {
+        periodTransactions.push(t);
         totalCombined += t.totalAmount;
-        if (t.userId === UserRole.PARTNER_1) tracyPaidThisMonth += t.totalAmount;
         for (const split of t.splits) {
           if (totals[split.categoryName] !== undefined) totals[split.categoryName] += split.amount;
         }
       }
     }
 
-    const totalBudget: number = Object.values(budgets).reduce((acc: number, val: number) => acc + (val || 0), 0);
-    const tracyOwesThisMonth: number = (totalCombined - tracyPaidThisMonth) * 0.45;
+    // Quarterly and annual budgets are spread evenly per month; custom ranges count partial months by days
+    const planned = plannedSpend(budgets, categories.filter(c => !c.archived), months);
+    const totalBudget: number = period.kind === 'custom' && months.length > 0 ? planned * periodMonths(period) / months.length : planned;
+    const settlement = computeSettlement(periodTransactions, settlementRules);
     const remainingBudget: number = Math.max(0, totalBudget - totalCombined);
     
-    return { totals, totalCombined, totalBudget, tracyPaidThisMonth, tracyOwesThisMonth, remainingBudget };
-  }, [transactions, categories, budgets, currentMonth, currentYear]);
+    return { totals, totalCombined, totalBudget, settlement, remainingBudget, months };
+  }, [transactions, categories, budgets, settlementRules, period, timeZone]);
+
+  // Category rows look at whole budget periods (an annual budget shows its full year), so they need spend outside the selected range
+  const spendIndex = useMemo(() => indexSpend(transactions, timeZone), [transactions, timeZone]);
+
+  const goalProgress = useMemo(() => goals.map(g => ({ goal: g, projection: projectGoal(g, goalContributions) })), [goals, goalContributions]);
+
+  // Outstanding across all months, net of settle-up payments
+  const outstanding = useMemo(() => buildLedger(transactions, settlements, settlementRules, timeZone)[0]?.outstanding || 0, [transactions, settlements, settlementRules, timeZone]);
 
   return (
     <div className="space-y-8 animate-in pb-10">
@@ -87,25 +148,58 @@ export const Dashboard = memo(({
         </div>
       </header>
 
+      <PeriodSelector period={period} timeZone={timeZone} onChange={setPeriod} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-6">
           <Card title="Shared Equity Status" accent="bg-indigo-500">
             <div className="space-y-3">
               <div className="space-y-1">
                 <span className="text-2xl font-black text-slate-900 tracking-tight leading-tight">
-                  Tracy owes ${data.tracyOwesThisMonth.toFixed(2)}
+                  {describeBalance(outstanding, partnerNames, baseCurrency)}
                 </span>
-                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Monthly Settlement</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Outstanding Balance</p>
               </div>
               <div className="pt-3 border-t border-slate-50 space-y-1">
                 <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
-                  <span>Tracy Paid:</span>
-                  <span>${data.tracyPaidThisMonth.toFixed(2)}</span>
+                  <span>{describePeriod(period)}:</span>
+                  <span>{describeBalance(data.settlement.balance, partnerNames, baseCurrency)}</span>
                 </div>
+                {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => (
+                  <div key={role} className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                    <span>{partnerNames[role]} Paid / Share:</span>
+                    <span>
+                      {formatCurrency(role === UserRole.PARTNER_1 ? data.settlement.partner1Paid : data.settlement.partner2Paid, baseCurrency)}
+                      {' / '}
+                      {formatCurrency(role === UserRole.PARTNER_1 ? data.settlement.partner1Share : data.settlement.partner2Share, baseCurrency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="pt-3 flex gap-2">
+                <button onClick={() => setIsSettleOpen(true)} className="flex-1 bg-slate-900 text-white py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">🤝 Settle Up</button>
+                <Link to="/settlements" className="flex-1 bg-slate-50 text-slate-500 py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest text-center">History</Link>
               </div>
             </div>
           </Card>
 
+          <Card title="Savings Goals" accent="bg-emerald-500">
+            <div className="space-y-4">
+              {goalProgress.length === 0 ? (
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No goals yet</p>
+              ) : goalProgress.map(({ goal, projection }) => (
+                <div key={goal.id} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[9px] font-black uppercase text-slate-500">{goal.icon} {goal.name}</span>
+                    <span className="text-[10px] font-black text-slate-900">{formatCurrency(projection.saved, baseCurrency, 0)} <span className="text-slate-300 font-normal">/ {formatCurrency(goal.target, baseCurrency, 0)}</span></span>
+                  </div>
+                  <ProgressBar progress={projection.percent} color="#10b981" />
+                </div>
+              ))}
+              <Link to="/goals" className="block bg-slate-50 text-slate-500 py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest text-center">Manage Goals</Link>
+            </div>
+          </Card>
+
           <button 
             onClick={handleSync}
             disabled={isSyncing}
@@ -138,12 +232,12 @@ export const Dashboard = memo(({
                 <div>
                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Spent / Budget</p>
                   <p className="text-2xl font-black text-slate-900">
-                    ${data.totalCombined.toFixed(0)} <span className="text-slate-300 font-normal text-lg">/ ${data.totalBudget.toFixed(0)}</span>
+                    {formatCurrency(data.totalCombined, baseCurrency, 0)} <span className="text-slate-300 font-normal text-lg">/ {formatCurrency(data.totalBudget, baseCurrency, 0)}</span>
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="text-[8px] font-black text-emerald-500 uppercase tracking-widest mb-1">Rem.</p>
-                  <p className="text-sm font-black text-emerald-600">${data.remainingBudget.toFixed(0)}</p>
+                  <p className="text-sm font-black text-emerald-600">{formatCurrency(data.remainingBudget, baseCurrency, 0)}</p>
                 </div>
               </div>
               <ProgressBar progress={(data.totalCombined / (data.totalBudget || 1)) * 100} color={data.totalCombined > data.totalBudget ? '#f43f5e' : '#6366f1'} />
@@ -151,15 +245,39 @@ export const Dashboard = memo(({
             
             <div className="max-h-[300px] overflow-y-auto no-scrollbar space-y-5 pr-1">
               {categories.map((cat: CategoryDefinition) => {
-                const spent = data.totals[cat.name] || 0;
-                const budget = budgets[cat.name] || 0;
+                const periodSpent = data.totals[cat.name] || 0;
+                if (cat.archived && periodSpent === 0) return null;
+                const status = budgetStatus(budgets[cat.name], spendIndex[cat.name], data.months);
+                if (!status) {
+                  return (
+                    <div key={cat.id} className="flex justify-between items-center">
+                      <span className="text-[9px] font-black uppercase text-slate-500">{cat.icon} {cat.name}</span>
+                      <span className="text-[10px] font-black text-slate-900">{formatCurrency(periodSpent, baseCurrency, 0)} <span className="text-slate-300 font-normal">· No budget</span></span>
+                    </div>
+                  );
+                }
+                const over = status.spent > status.available;
                 return (
                   <div key={cat.id} className="space-y-2">
                     <div className="flex justify-between items-center">
-                      <span className="text-[9px] font-black uppercase text-slate-500">{cat.icon} {cat.name}</span>
-                      <span className="text-[10px] font-black text-slate-900">${spent.toFixed(0)} <span className="text-slate-300 font-normal">/ ${budget.toFixed(0)}</span></span>
+                      <span className="text-[9px] font-black uppercase text-slate-500">
+                        {cat.icon} {cat.name}
+                        {status.periodicity !== 'monthly' && <span className="text-slate-300"> · {status.periodicity}</span>}
+                      </span>
+                      <span className="text-[10px] font-black text-slate-900">{formatCurrency(status.spent, baseCurrency, 0)} <span className="text-slate-300 font-normal">/ {formatCurrency(status.available, baseCurrency, 0)}</span></span>
                     </div>
-                    <ProgressBar progress={(spent / (budget || 1)) * 100} color={spent > budget ? '#f43f5e' : cat.color} />
+                    <ProgressBar progress={(status.spent / (status.available || 1)) * 100} color={over ? '#f43f5e' : cat.color} />
+                    {status.carriedIn !== 0 && (
+                      <p className={`text-[8px] font-black uppercase tracking-widest ${status.carriedIn < 0 ? 'text-rose-400' : 'text-emerald-500'}`}>
+                        {status.carriedIn > 0 ? `+${formatCurrency(status.carriedIn, baseCurrency, 0)} rolled over` : `−${formatCurrency(Math.abs(status.carriedIn), baseCurrency, 0)} overspend carried`}
+                      </p>
+                    )}
+                    {status.allowances.map(a => (
+                      <div key={a.role} className="flex justify-between items-center pl-4">
+                        <span className="text-[8px] font-black uppercase text-slate-400">{partnerNames[a.role]}</span>
+                        <span className={`text-[9px] font-black ${a.spent > a.allowance ? 'text-rose-500' : 'text-slate-500'}`}>{formatCurrency(a.spent, baseCurrency, 0)} / {formatCurrency(a.allowance, baseCurrency, 0)}</span>
+                      </div>
+                    ))}
                   </div>
                 );
               })}
@@ -167,61 +285,302 @@ export const Dashboard = memo(({
           </div>
         </Card>
       </div>
+
+      {isSettleOpen && <SettleUpModal balance={outstanding} partnerNames={partnerNames} timeZone={timeZone} baseCurrency={baseCurrency} onSave={onAddSettlement} onClose={() => setIsSettleOpen(false)} />}
     </div>
   );
 });
 
-export const TransactionList = memo(({ transactions, categories, partnerNames, onAdd, onDelete, isAIEnabled }: { transactions: Transaction[], categories: CategoryDefinition[], partnerNames: PartnerNames, onAdd: (t: Transaction) => void, onDelete: (id: string) => void, isAIEnabled: boolean }) => {
+// Rows rendered per "Show more" step; keeps years of history cheap to render
+const FEED_PAGE_SIZE = 50;
+
+export const TransactionList = memo(({ transactions, categories, partnerNames, partnerProfiles, settlementRules, timeZone, baseCurrency, exchangeRates, defaultPayer, categorization, onSave, onDelete, isAIEnabled }: { transactions: Transaction[], categories: CategoryDefinition[], partnerNames: PartnerNames, partnerProfiles: PartnerProfiles, settlementRules: SettlementRules, timeZone: string, baseCurrency: string, exchangeRates: ExchangeRate[], defaultPayer: UserRole, categorization: CategorizationSettings, onSave: (t: Transaction) => void, onDelete: (id: string) => void, isAIEnabled: boolean }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<Transaction | null>(null);
   const [newDesc, setNewDesc] = useState('');
   const [newUser, setNewUser] = useState(UserRole.PARTNER_1);
-  const [newDate, setNewDate] = useState(new Date().toISOString().split('T')[0]);
-  const [newSplits, setNewSplits] = useState<TransactionSplit[]>([{ categoryName: categories[0]?.name || '', amount: 0 }]);
+  const [newDate, setNewDate] = useState(() => dayKeyIn(new Date().toISOString(), timeZone));
+  const pickerCategories = useMemo(() => categories.filter(c => !c.archived), [categories]);
+  const [newSplits, setNewSplits] = useState<TransactionSplit[]>([{ categoryName: pickerCategories[0]?.name || '', amount: 0 }]);
+  const [newRule, setNewRule] = useState<SplitRule | undefined>(undefined);
+  // Once someone picks a category by hand, suggestions stop overwriting it
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  // Split amounts are typed in newCurrency; a foreign entry is converted to the base currency on save
+  const [newCurrency, setNewCurrency] = useState(baseCurrency);
+  const [newRate, setNewRate] = useState('');
+  // A photo taken in this form; it is written to storage only when the entry is saved
+  const [receipt, setReceipt] = useState<{ id: string; image: Blob } | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [quickText, setQuickText] = useState('');
+  const [quickBusy, setQuickBusy] = useState(false);
+  const [filters, setFilters] = useState<FeedFilters>(EMPTY_FEED_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(FEED_PAGE_SIZE);
   
   const totalAmount = useMemo(() => newSplits.reduce((acc, s) => acc + (Number(s.amount) || 0), 0), [newSplits]);
+  const isForeignEntry = newCurrency !== baseCurrency;
+  const currencyOptions = useMemo(() => Array.from(new Set([baseCurrency, ...exchangeRates.map(r => r.currency), newCurrency])), [baseCurrency, exchangeRates, newCurrency]);
+
+  // Switching currency or date picks up the stored rate for that day; the rate stays editable for this entry
+  const selectCurrency = (currency: string, day: string) => {
+    setNewCurrency(currency);
+    const stored = currency === baseCurrency ? null : rateFor(exchangeRates, currency, day);
+    setNewRate(stored ? String(stored) : '');
+  };
+
+  const handleCurrencyChange = (value: string) => {
+    if (value !== 'other') return selectCurrency(value, newDate);
+    const code = (prompt("Currency code (e.g. EUR, JPY, MXN):") || '').trim().toUpperCase();
+    if (!code) return;
+    if (!isCurrencyCode(code)) return alert("Use a three-letter currency code like EUR.");
+    selectCurrency(code, newDate);
+  };
+
+  const handleDateChange = (value: string) => {
+    setNewDate(value);
+    if (isForeignEntry && rateFor(exchangeRates, newCurrency, value)) selectCurrency(newCurrency, value);
+  };
+
+  const updateSplit = (index: number, patch: Partial<TransactionSplit>) => {
+    setNewSplits(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  // Suggestions only apply to new single-category entries; edits and splits are left as they are
+  const categoryModel = useMemo(() => learnCategories(transactions), [transactions]);
+  const suggest = (description: string) => !editing && newSplits.length === 1 && description.trim() ? suggestCategory(description, categoryModel, categorization, pickerCategories) : null;
+  const suggestion = useMemo(() => suggest(newDesc), [newDesc, editing, newSplits.length, categoryModel, categorization, pickerCategories]);
+
+  const handleDescChange = (value: string) => {
+    setNewDesc(value);
+    const next = categoryTouched ? null : suggest(value);
+    if (next && next.confidence >= categorization.autoApplyThreshold) updateSplit(0, { categoryName: next.categoryName });
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const merchants = useMemo(() => buildMerchantIndex(transactions), [transactions]);
+  const quickContext = (): QuickEntryContext => ({ categories: pickerCategories, partnerNames, merchants, rules: categorization.rules, today: dayKeyIn(new Date().toISOString(), timeZone), defaultPayer });
+  const quickDraft = useMemo(() => parseQuickEntry(quickText, quickContext()), [quickText, pickerCategories, partnerNames, merchants, categorization.rules, timeZone, defaultPayer]);
+
+  const openDraft = (draft: QuickEntryDraft) => {
+    resetForm();
+    setNewDesc(draft.description);
+    setNewUser(draft.userId);
+    setNewDate(draft.date);
+    setNewSplits(draft.splits.map(s => ({ ...s })));
+    setIsModalOpen(true);
+  };
+
+  // A clear parse is saved straight away; anything unsure opens the form to review, via the AI when it's on
+  const handleQuickAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quickDraft || quickBusy) return;
+    if (quickDraft.issues.length === 0) {
+      onSave({
+        id: generateId(),
+        updatedAt: new Date().toISOString(),
+        description: quickDraft.description || 'Expense',
+        date: new Date(quickDraft.date).toISOString(),
+        userId: quickDraft.userId,
+        splits: quickDraft.splits,
+        totalAmount: quickDraft.total,
+      });
+      setQuickText('');
+      return;
+    }
+    let draft = quickDraft;
+    if (isAIEnabled) {
+      setQuickBusy(true);
+      try {
+        draft = (await parseQuickEntryWithAI(quickText, quickContext())) || quickDraft;
+      } finally {
+        setQuickBusy(false);
+      }
+    }
+    openDraft(draft);
+    setQuickText('');
+  };
+
+  const handleReceipt = async (file: File) => {
+    setScanning(true);
+    try {
+      const image = await prepareReceiptImage(file);
+      setReceipt({ id: editing?.receiptId || generateId(), image: image.blob });
+      if (!isAIEnabled) return;
+      const extracted = await extractReceipt(image, pickerCategories);
+      if (!extracted) return alert("Couldn't read that receipt. The photo is attached; fill in the details by hand.");
+      if (extracted.merchant) setNewDesc(extracted.merchant);
+      const day = extracted.date || newDate;
+      setNewDate(day);
+      if (extracted.currency) selectCurrency(extracted.currency, day);
+      setNewSplits(splitsFromReceipt(extracted, pickerCategories[0]?.name || ''));
+    } catch (err) {
+      console.error("Receipt capture failed", err);
+      alert("Couldn't use that photo. Try again or fill in the details by hand.");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (totalAmount <= 0) return alert("Total must be greater than 0");
-    onAdd({
-      id: generateId(),
+    const rate = Number(newRate);
+    if (isForeignEntry && !(rate > 0)) return alert(`Enter how much 1 ${newCurrency} is in ${baseCurrency}, or add ${newCurrency} rates in Setup.`);
+    const splits = newSplits.map(s => ({ ...s, amount: isForeignEntry ? toBase(Number(s.amount), rate) : Number(s.amount) }));
+    // The old rule and currency are dropped and re-applied below so clearing them in the form sticks
+    const { splitRule, currency, originalAmount, exchangeRate, ...base } = editing || ({} as Partial<Transaction>);
+    let receiptId = editing?.receiptId;
+    if (receipt) {
+      try {
+        if (await saveReceipt(receipt.id, receipt.image)) receiptId = receipt.id;
+        else alert("This browser can't store photos, so the entry is saved without its receipt.");
+      } catch (err) {
+        console.error("Could not save receipt", err);
+        alert("The receipt photo couldn't be stored (the phone may be out of space). The entry is saved without it.");
+      }
+    }
+    onSave({
+      ...base,
+      // Editing keeps the id (and any recurring link) so the change replaces the original on every device
+      id: editing?.id || generateId(),
+      updatedAt: new Date().toISOString(),
       description: newDesc || 'Expense',
-      date: new Date(newDate).toISOString(),
+      // An unchanged day keeps the original timestamp instead of snapping it to midnight
+      date: editing && dayKeyIn(editing.date, timeZone) === newDate ? editing.date : new Date(newDate).toISOString(),
       userId: newUser,
-      splits: newSplits.map(s => ({ ...s, amount: Number(s.amount) })),
-      totalAmount: totalAmount
+      splits,
+      totalAmount: Math.round(splits.reduce((acc, s) => acc + s.amount, 0) * 100) / 100,
+      ...(newRule ? { splitRule: newRule } : {}),
+      ...(receiptId ? { receiptId } : {}),
+      ...(isForeignEntry ? { currency: newCurrency, originalAmount: Math.round(totalAmount * 100) / 100, exchangeRate: rate } : {})
     });
     setIsModalOpen(false);
     resetForm();
   };
 
+  const openEditor = (t: Transaction) => {
+    setEditing(t);
+    setNewDesc(t.description);
+    setNewUser(t.userId);
+    setNewDate(dayKeyIn(t.date, timeZone));
+    setNewRule(t.splitRule);
+    if (isForeign(t, baseCurrency)) {
+      // Back to what was charged, keeping the rate it was saved with; the last split absorbs rounding
+      const rate = t.exchangeRate || (t.totalAmount / (t.originalAmount || 1));
+      const original = t.splits.map(s => ({ ...s, amount: Math.round((s.amount / rate) * 100) / 100 }));
+      const drift = (t.originalAmount || 0) - original.reduce((acc, s) => acc + s.amount, 0);
+      if (original.length > 0) original[original.length - 1].amount = Math.round((original[original.length - 1].amount + drift) * 100) / 100;
+      setNewSplits(original);
+      setNewCurrency(t.currency!);
+      setNewRate(String(rate));
+    } else {
+      setNewSplits(t.splits.map(s => ({ ...s })));
+      setNewCurrency(baseCurrency);
+      setNewRate('');
+    }
+    setIsModalOpen(true);
+  };
+
   const resetForm = () => {
+    setEditing(null);
     setNewDesc('');
-    setNewSplits([{ categoryName: categories[0]?.name || '', amount: 0 }]);
-    setNewDate(new Date().toISOString().split('T')[0]);
+    setNewSplits([{ categoryName: pickerCategories[0]?.name || '', amount: 0 }]);
+    setNewDate(dayKeyIn(new Date().toISOString(), timeZone));
+    setNewRule(undefined);
+    setCategoryTouched(false);
+    setNewCurrency(baseCurrency);
+    setNewRate('');
+    setReceipt(null);
+  };
+
+  const updateFilters = (patch: Partial<FeedFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setVisibleCount(FEED_PAGE_SIZE);
   };
 
+  const filtered = useMemo(() => filterTransactions(transactions, filters, timeZone), [transactions, filters, timeZone]);
+  const filteredTotal = useMemo(() => filtered.reduce((acc, t) => acc + feedAmount(t, filters), 0), [filtered, filters]);
+  const byAmount = filters.sort === 'largest' || filters.sort === 'smallest';
+  const filterCount = activeFilterCount(filters);
+
   const groups = useMemo(() => {
-    const sorted = [...transactions].sort((a,b) => b.date.localeCompare(a.date)).slice(0, 50);
     const g: Record<string, Transaction[]> = {};
-    sorted.forEach(t => {
-      const d = new Date(t.date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+    filtered.slice(0, visibleCount).forEach(t => {
+      const d = byAmount
+        ? (filters.sort === 'largest' ? 'Largest first' : 'Smallest first')
+        : new Date(`${dayKeyIn(t.date, timeZone)}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
       if (!g[d]) g[d] = [];
       g[d].push(t);
     });
     return Object.entries(g);
-  }, [transactions]);
+  }, [filtered, visibleCount, byAmount, filters.sort, timeZone]);
 
   return (
     <div className="space-y-8 animate-in pb-10">
       <header className="flex flex-col gap-4 pt-4">
-        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Timeline</h1>
+        <div className="flex justify-between items-end">
+          <h1 className="text-4xl font-black text-slate-900 tracking-tight">Timeline</h1>
+          <Link to="/trash" className="text-[10px] font-black text-slate-400 uppercase tracking-widest pb-2">🗑️ Trash</Link>
+        </div>
         <button 
           onClick={() => setIsModalOpen(true)} 
           className="w-full bg-slate-900 text-white px-6 py-6 rounded-3xl font-black uppercase text-xs tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3"
         >
           <span className="text-xl">+</span> Add New Expense
         </button>
+        <form onSubmit={handleQuickAdd} className="space-y-2">
+          <div className="flex gap-2">
+            <input value={quickText} onChange={e => setQuickText(e.target.value)} disabled={quickBusy} className="flex-1 min-w-0 px-5 py-4 rounded-2xl bg-white border border-slate-100 font-bold outline-none text-sm" placeholder={`Quick add: "45 groceries ${partnerNames[UserRole.PARTNER_2]} yesterday"`} enterKeyHint="done" />
+            <button type="submit" disabled={!quickDraft || quickBusy} className="px-5 rounded-2xl bg-indigo-600 text-white font-black uppercase text-[10px] tracking-widest disabled:opacity-40">{quickBusy ? '…' : quickDraft && quickDraft.issues.length > 0 ? 'Review' : 'Add'}</button>
+          </div>
+          {quickDraft && (
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-tight px-2">
+              {formatCurrency(quickDraft.total, baseCurrency)} · {quickDraft.description || 'Expense'} · {quickDraft.splits.map(s => `${categories.find(c => c.name === s.categoryName)?.icon || ''} ${s.categoryName}`).join(' + ')} · <span style={{ color: partnerProfiles[quickDraft.userId].color }}>{partnerNames[quickDraft.userId]}</span> · {new Date(`${quickDraft.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              {quickDraft.issues.length > 0 && <span className="block text-rose-400">{quickDraft.issues.join(' · ')}</span>}
+            </p>
+          )}
+        </form>
+        <div className="grid grid-cols-2 gap-3">
+          <Link to="/recurring" className="w-full bg-white text-slate-500 px-6 py-4 rounded-3xl font-black uppercase text-[10px] tracking-widest border border-slate-100 text-center">🔁 Recurring Bills</Link>
+          <Link to="/import" className="w-full bg-white text-slate-500 px-6 py-4 rounded-3xl font-black uppercase text-[10px] tracking-widest border border-slate-100 text-center">📥 Import Statement</Link>
+        </div>
+        <div className="flex gap-2">
+          <input type="search" value={filters.query} onChange={e => updateFilters({ query: e.target.value })} className="flex-1 px-5 py-4 rounded-2xl bg-white border border-slate-100 font-bold outline-none text-sm" placeholder="Search description…" />
+          <button onClick={() => setShowFilters(v => !v)} className={`px-5 rounded-2xl font-black uppercase text-[10px] tracking-widest border ${showFilters || filterCount > 0 ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-100'}`}>
+            Filters{filterCount > 0 ? ` · ${filterCount}` : ''}
+          </button>
+        </div>
+        {showFilters && (
+          <div className="bg-white rounded-[24px] border border-slate-100 p-4 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <select value={filters.category} onChange={e => updateFilters({ category: e.target.value })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+                <option value="">All categories</option>
+                {categories.map(c => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+              </select>
+              <select value={filters.userId} onChange={e => updateFilters({ userId: e.target.value as UserRole | '' })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+                <option value="">Both partners</option>
+                <option value={UserRole.PARTNER_1}>{partnerNames[UserRole.PARTNER_1]}</option>
+                <option value={UserRole.PARTNER_2}>{partnerNames[UserRole.PARTNER_2]}</option>
+              </select>
+              <input type="number" step="0.01" value={filters.minAmount} onChange={e => updateFilters({ minAmount: e.target.value })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm" placeholder={`Min ${currencySymbol(baseCurrency)}`} />
+              <input type="number" step="0.01" value={filters.maxAmount} onChange={e => updateFilters({ maxAmount: e.target.value })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm" placeholder={`Max ${currencySymbol(baseCurrency)}`} />
+              <input type="date" value={filters.from} onChange={e => updateFilters({ from: e.target.value })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm" aria-label="From" />
+              <input type="date" value={filters.to} onChange={e => updateFilters({ to: e.target.value })} className="w-full px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm" aria-label="To" />
+            </div>
+            <div className="flex gap-2">
+              <select value={filters.sort} onChange={e => updateFilters({ sort: e.target.value as FeedSort })} className="flex-1 px-3 py-3 rounded-xl bg-slate-50 font-bold outline-none text-sm">
+                <option value="newest">Newest first</option>
+                <option value="oldest">Oldest first</option>
+                <option value="largest">Largest first</option>
+                <option value="smallest">Smallest first</option>
+              </select>
+              <button onClick={() => updateFilters(EMPTY_FEED_FILTERS)} className="px-4 rounded-xl bg-slate-50 text-slate-500 font-black uppercase text-[10px] tracking-widest">Reset</button>
+            </div>
+          </div>
+        )}
+        <div className="flex justify-between items-center px-2">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{filtered.length} of {transactions.length} entries</span>
+          <span className="text-sm font-black text-slate-900">{formatCurrency(filteredTotal, baseCurrency)}</span>
+        </div>
       </header>
       
       <div className="space-y-10">
@@ -234,60 +593,96 @@ export const TransactionList = memo(({ transactions, categories, partnerNames, o
             <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">{date}</h3>
             {txs.map((t: Transaction) => (
               <div key={t.id} className="bg-white p-5 rounded-[24px] border border-slate-50 flex items-center justify-between shadow-sm">
-                <div className="flex items-center gap-4">
+                <button onClick={() => openEditor(t)} className="flex items-center gap-4 text-left">
                   <div className="w-10 h-10 rounded-xl bg-slate-50 flex items-center justify-center text-lg">{categories.find((c: CategoryDefinition) => c.name === t.splits[0]?.categoryName)?.icon || '💰'}</div>
                   <div>
                     <h4 className="font-bold text-slate-900 text-sm">{t.description}</h4>
-                    <p className="text-[10px] font-black text-slate-400 uppercase">{partnerNames[t.userId]}</p>
+                    <p className="text-[10px] font-black text-slate-400 uppercase"><span style={{ color: partnerProfiles[t.userId].color }}>{partnerProfiles[t.userId].avatar} {partnerNames[t.userId]}</span>{byAmount && ` · ${dayKeyIn(t.date, timeZone)}`}{t.splitRule && ` · ${describeSplitRule(t.splitRule, partnerNames)}`}{t.receiptId && ' · 🧾'}</p>
                   </div>
-                </div>
+                </button>
                 <div className="flex items-center gap-4">
-                  <span className="text-lg font-black text-slate-900">${t.totalAmount.toFixed(2)}</span>
+                  <div className="text-right">
+                    <span className="text-lg font-black text-slate-900">{formatCurrency(t.totalAmount, baseCurrency)}</span>
+                    {isForeign(t, baseCurrency) && <p className="text-[9px] font-black text-slate-400 uppercase">{formatCurrency(t.originalAmount!, t.currency!)} {t.currency}</p>}
+                  </div>
                   <button onClick={() => onDelete(t.id)} className="text-slate-100 hover:text-rose-400 p-1 font-bold text-xl">×</button>
                 </div>
               </div>
             ))}
           </div>
         ))}
+        {filtered.length > visibleCount && (
+          <button onClick={() => setVisibleCount(c => c + FEED_PAGE_SIZE)} className="w-full bg-white text-slate-500 py-4 rounded-3xl font-black uppercase text-[10px] tracking-widest border border-slate-100">
+            Show more ({filtered.length - visibleCount} left)
+          </button>
+        )}
       </div>
 
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 backdrop-blur-[2px] p-4">
           <div className="bg-white rounded-[40px] w-full max-w-md p-8 shadow-2xl animate-in max-h-[90vh] overflow-y-auto no-scrollbar">
             <div className="flex justify-between items-start mb-6">
-              <h2 className="text-2xl font-black tracking-tight">New Log</h2>
+              <h2 className="text-2xl font-black tracking-tight">{editing ? 'Edit Log' : 'New Log'}</h2>
               <button onClick={() => { setIsModalOpen(false); resetForm(); }} className="text-slate-300 hover:text-slate-500 font-bold text-lg">×</button>
             </div>
             <form onSubmit={handleSubmit} className="space-y-6">
-              <input required value={newDesc} onChange={e => setNewDesc(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Description / Merchant" />
+              <ReceiptCapture receiptId={editing?.receiptId} image={receipt?.image || null} scanning={scanning} canExtract={isAIEnabled} onPhoto={handleReceipt} />
+              <input required value={newDesc} onChange={e => handleDescChange(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" placeholder="Description / Merchant" />
               <div className="grid grid-cols-2 gap-3">
-                <input type="date" value={newDate} onChange={e => setNewDate(e.target.value)} required className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
+                <input type="date" value={newDate} onChange={e => handleDateChange(e.target.value)} required className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none" />
                 <select value={newUser} onChange={e => setNewUser(e.target.value as UserRole)} className="w-full px-6 py-4 rounded-2xl bg-slate-50 font-bold outline-none">
-                  <option value={UserRole.PARTNER_1}>{partnerNames[UserRole.PARTNER_1]}</option>
-                  <option value={UserRole.PARTNER_2}>{partnerNames[UserRole.PARTNER_2]}</option>
+                  <option value={UserRole.PARTNER_1}>{partnerProfiles[UserRole.PARTNER_1].avatar} {partnerNames[UserRole.PARTNER_1]}</option>
+                  <option value={UserRole.PARTNER_2}>{partnerProfiles[UserRole.PARTNER_2].avatar} {partnerNames[UserRole.PARTNER_2]}</option>
+                </select>
+              </div>
+              <div className="flex gap-2 items-center">
+                <select value={newCurrency} onChange={e => handleCurrencyChange(e.target.value)} className="w-28 px-4 py-3 rounded-2xl bg-slate-50 font-black outline-none text-sm">
+                  {currencyOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                  <option value="other">Other…</option>
                 </select>
+                {isForeignEntry && (
+                  <div className="flex-1 flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase">
+                    <span>1 {newCurrency} =</span>
+                    <input type="number" step="any" min={0} value={newRate} onChange={e => setNewRate(e.target.value)} className="flex-1 min-w-0 px-3 py-3 rounded-2xl bg-slate-50 font-black text-right outline-none text-sm text-slate-900" placeholder="Rate" />
+                    <span>{baseCurrency}</span>
+                  </div>
+                )}
               </div>
               <div className="space-y-3">
                 {newSplits.map((split, index) => (
                   <div key={index} className="flex gap-2 items-center">
-                    <select value={split.categoryName} onChange={e => {
-                      const updated = [...newSplits];
-                      updated[index].categoryName = e.target.value;
-                      setNewSplits(updated);
-                    }} className="flex-1 px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none text-sm">
-                      {categories.map((c: CategoryDefinition) => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+                    <select value={split.categoryName} onChange={e => { setCategoryTouched(true); updateSplit(index, { categoryName: e.target.value }); }} className="flex-1 px-4 py-4 rounded-2xl bg-slate-50 font-bold outline-none text-sm">
+                      {/* An entry filed under a since-archived category keeps showing it while being edited */}
+                      {!pickerCategories.some(c => c.name === split.categoryName) && <option value={split.categoryName}>{split.categoryName}</option>}
+                      {pickerCategories.map((c: CategoryDefinition) => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
                     </select>
-                    <input type="number" step="0.01" required value={split.amount || ''} onChange={e => {
-                      const updated = [...newSplits];
-                      updated[index].amount = Number(e.target.value);
-                      setNewSplits(updated);
-                    }} className="w-24 px-4 py-4 rounded-2xl bg-slate-50 font-black text-right outline-none" placeholder="0.00" />
+                    <input type="number" step="0.01" required value={split.amount || ''} onChange={e => updateSplit(index, { amount: Number(e.target.value) })} className="w-24 px-4 py-4 rounded-2xl bg-slate-50 font-black text-right outline-none" placeholder="0.00" />
+                    {newSplits.length > 1 && <button type="button" onClick={() => setNewSplits(prev => prev.filter((_, i) => i !== index))} className="text-slate-300 hover:text-rose-400 font-bold text-lg">×</button>}
                   </div>
                 ))}
+                {suggestion && (suggestion.categoryName === newSplits[0]?.categoryName ? (
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">✨ {suggestion.reason}</p>
+                ) : (
+                  <button type="button" onClick={() => { setCategoryTouched(true); updateSplit(0, { categoryName: suggestion.categoryName }); }} className="block text-[10px] font-black text-indigo-500 uppercase tracking-widest px-2">
+                    Suggested: {pickerCategories.find(c => c.name === suggestion.categoryName)?.icon} {suggestion.categoryName} · {Math.round(suggestion.confidence * 100)}%
+                  </button>
+                ))}
+                <button type="button" onClick={() => setNewSplits(prev => [...prev, { categoryName: pickerCategories[0]?.name || '', amount: 0 }])} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest px-2">+ Add Split</button>
+              </div>
+              <div className="space-y-1">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-2">Split ({newRule ? describeSplitRule(newRule, partnerNames) : `Default: ${describeSplitRule({ kind: 'shared', partner1Share: settlementRules.defaultPartner1Share }, partnerNames)}`})</p>
+                <SplitRuleSelect value={newRule} onChange={setNewRule} partnerNames={partnerNames} />
               </div>
               <div className="bg-slate-900 rounded-[32px] p-6 text-white flex justify-between items-center">
                 <span className="text-[10px] font-black uppercase opacity-50">Total</span>
-                <span className="text-3xl font-black">${totalAmount.toFixed(2)}</span>
+                {isForeignEntry ? (
+                  <div className="text-right">
+                    <span className="text-3xl font-black">{formatCurrency(totalAmount, newCurrency)}</span>
+                    <p className="text-[10px] font-black uppercase opacity-50">{Number(newRate) > 0 ? `≈ ${formatCurrency(toBase(totalAmount, Number(newRate)), baseCurrency)}` : 'No rate yet'}</p>
+                  </div>
+                ) : (
+                  <span className="text-3xl font-black">{formatCurrency(totalAmount, baseCurrency)}</span>
+                )}
               </div>
               <button type="submit" className="w-full bg-indigo-600 text-white py-5 rounded-[24px] font-black uppercase text-[12px] tracking-widest shadow-xl active:scale-[0.98] transition-all">Save Transaction</button>
             </form>
@@ -298,26 +693,53 @@ export const TransactionList = memo(({ transactions, categories, partnerNames, o
   );
 });
 
-export const AIAdvisor = memo(({ transactions, budgets, categories, isEnabled }: { transactions: Transaction[], budgets: Record<string, number>, categories: CategoryDefinition[], isEnabled: boolean }) => {
-  const [advice, setAdvice] = useState<string | null>(null);
+const shortDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const CADENCE_LABELS: Record<DetectedCharge['cadence'], string> = { weekly: 'Week', monthly: 'Month', yearly: 'Year' };
+
+export const AIAdvisor = memo(({ transactions, settlements, categories, budgets, settlementRules, goals, goalContributions, partnerNames, recurring, timeZone, baseCurrency, onSaveRecurring, session, setSession, isEnabled }: { transactions: Transaction[], settlements: Settlement[], categories: CategoryDefinition[], budgets: Budgets, settlementRules: SettlementRules, goals: Goal[], goalContributions: GoalContribution[], partnerNames: PartnerNames, recurring: RecurringTemplate[], timeZone: string, baseCurrency: string, onSaveRecurring: (r: RecurringTemplate) => void, session: CoachSession, setSession: React.Dispatch<React.SetStateAction<CoachSession>>, isEnabled: boolean }) => {
+  const [adviceError, setAdviceError] = useState<string | null>(null);
   const [subs, setSubs] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [asking, setAsking] = useState(false);
   const [loadingSubs, setLoadingSubs] = useState(false);
 
+  // What the coach is allowed to talk about; tips and answers are checked against the same figures
+  const facts = useMemo(() => buildCoachFacts({
+    transactions, settlements, categories, budgets, rules: settlementRules, goals, contributions: goalContributions, partnerNames, timeZone, currency: baseCurrency,
+  }), [transactions, settlements, categories, budgets, settlementRules, goals, goalContributions, partnerNames, timeZone, baseCurrency]);
+
+  const charges = useMemo(() => detectRecurringCharges(transactions, recurring, dayKeyIn(new Date().toISOString(), timeZone), timeZone), [transactions, recurring, timeZone]);
+  const activeMonthly = useMemo(() => charges.filter(c => !c.lapsed).reduce((acc, c) => acc + monthlyCost(c), 0), [charges]);
+
   const handleRunAudit = async () => {
     setLoadingSubs(true);
-    const result = await detectSubscriptions(transactions);
-    setSubs(result ?? "No subscriptions found.");
+    const result = await reviewRecurringCharges(charges, baseCurrency);
+    setSubs(result ?? "No commentary this time.");
     setLoadingSubs(false);
   };
 
   const handleRunAdvice = async () => {
     setLoading(true);
-    const result = await analyzeSpending(transactions, budgets, categories);
-    setAdvice(result);
+    setAdviceError(null);
+    const tips = await analyzeSpending(facts);
+    if (tips) setSession(prev => ({ ...prev, tips }));
+    else setAdviceError("AI Connection Issue: please check your API key and connection.");
     setLoading(false);
   };
 
+  const handleAsk = async (question: string): Promise<boolean> => {
+    const messages = [...session.messages, { role: 'user' as const, text: question }];
+    setSession(prev => ({ ...prev, messages }));
+    setAsking(true);
+    const answer = await askCoach(facts, session.tips, messages);
+    setAsking(false);
+    // A failed question is taken back out so it isn't sent again as part of the history
+    setSession(prev => ({ ...prev, messages: answer ? [...messages, { role: 'coach', text: answer }] : session.messages }));
+    if (!answer) alert("DuoCoach couldn't answer. Check your API key and connection, then try again.");
+    return !!answer;
+  };
+
   return (
     <div className="space-y-8 animate-in pb-10">
       <header><h1 className="text-4xl font-black text-slate-900 tracking-tight text-center">DuoCoach</h1></header>
@@ -331,9 +753,17 @@ export const AIAdvisor = memo(({ transactions, budgets, categories, isEnabled }:
             disabled={loading || !isEnabled} 
             className="bg-white text-slate-900 px-10 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest w-full disabled:opacity-50"
           >
-            {loading ? 'Thinking...' : 'Analyze My Spending'}
+            {loading ? 'Thinking...' : session.tips ? 'Refresh Tips' : 'Analyze My Spending'}
           </button>
-          {advice && <div className="bg-white/10 rounded-3xl p-6 text-left text-sm text-white/90 whitespace-pre-wrap leading-relaxed border border-white/5">{advice}</div>}
+          <p className="text-[9px] font-black uppercase tracking-widest text-white/40">
+            This month {formatCurrency(facts.totals.monthToDate, baseCurrency)} · by this day last month {formatCurrency(facts.totals.lastMonthToDate, baseCurrency)}{facts.totals.monthlyBudget > 0 ? ` · budget ${formatCurrency(facts.totals.monthlyBudget, baseCurrency)}` : ''}
+          </p>
+          {adviceError && <p className="text-rose-400 text-[10px] font-black uppercase">{adviceError}</p>}
+          {session.tips && <CoachTips tips={session.tips} categories={categories} baseCurrency={baseCurrency} />}
+          <div className="pt-4 border-t border-white/10 space-y-3">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-white/50 text-left">Ask a follow-up</h3>
+            <CoachChat messages={session.messages} busy={asking} disabled={!isEnabled} onAsk={handleAsk} onClear={() => setSession(prev => ({ ...prev, messages: EMPTY_COACH_SESSION.messages }))} />
+          </div>
         </div>
 
         <div className="bg-white rounded-[40px] p-10 border border-slate-100 shadow-xl space-y-6">
@@ -344,13 +774,54 @@ export const AIAdvisor = memo(({ transactions, budgets, categories, isEnabled }:
             </div>
             <span className="bg-indigo-500 text-white text-[8px] font-black px-2 py-1 rounded-full uppercase tracking-tighter">History Audit</span>
           </div>
-          <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest leading-relaxed">Gemini will audit your history to find hidden recurring subscriptions.</p>
+          <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest leading-relaxed">Charges that repeat every week, month or year at a steady price, found on this phone.</p>
+          {charges.length === 0 ? (
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Nothing recurring yet. A charge shows up after 3 weekly or monthly payments, or 2 yearly ones.</p>
+          ) : (
+            <>
+              <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">{charges.filter(c => !c.lapsed).length} active · ~{formatCurrency(activeMonthly, baseCurrency)} / month</p>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="text-[8px] font-black uppercase text-slate-400 tracking-widest">
+                    <th className="pb-2">Merchant</th>
+                    <th className="pb-2">Every</th>
+                    <th className="pb-2 text-right">Avg</th>
+                    <th className="pb-2 text-right">Next</th>
+                    <th className="pb-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {charges.map(c => (
+                    <tr key={c.key} className={`border-t border-slate-50 align-top ${c.lapsed ? 'opacity-50' : ''}`}>
+                      <td className="py-3 pr-2">
+                        <p className="font-bold text-slate-900 text-xs">{c.merchant}</p>
+                        <p className="text-[9px] font-black text-slate-400 uppercase">Last {shortDay(c.lastDate)} · {c.count}×</p>
+                        {c.priceChanges.map(p => (
+                          <p key={p.date} className={`text-[9px] font-black uppercase ${p.to > p.from ? 'text-rose-500' : 'text-emerald-500'}`}>{p.to > p.from ? '↑' : '↓'} {formatCurrency(p.from, baseCurrency)} → {formatCurrency(p.to, baseCurrency)} {shortDay(p.date)}</p>
+                        ))}
+                      </td>
+                      <td className="py-3 pr-2 text-[10px] font-black text-slate-500 uppercase">{CADENCE_LABELS[c.cadence]}</td>
+                      <td className="py-3 pr-2 text-right text-xs font-black text-slate-900">{formatCurrency(c.averageAmount, baseCurrency)}</td>
+                      <td className={`py-3 pr-2 text-right text-[10px] font-black uppercase ${c.lapsed ? 'text-rose-400' : 'text-slate-500'}`}>{c.trackedBy ? '—' : c.lapsed ? 'Stopped?' : shortDay(c.nextDate)}</td>
+                      <td className="py-3 text-right">
+                        {c.trackedBy ? (
+                          <Link to="/recurring" className="text-[9px] font-black text-emerald-500 uppercase tracking-widest whitespace-nowrap">✓ Bill</Link>
+                        ) : (
+                          <button onClick={() => onSaveRecurring(templateFromCharge(c, generateId(), dayKeyIn(new Date().toISOString(), timeZone)))} disabled={c.lapsed} title={c.lapsed ? 'Looks cancelled — add it under Recurring if it still charges' : undefined} className="text-[9px] font-black text-indigo-500 uppercase tracking-widest whitespace-nowrap disabled:text-slate-300">+ Track</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
           <button 
             onClick={handleRunAudit} 
-            disabled={loadingSubs || !isEnabled} 
+            disabled={loadingSubs || !isEnabled || charges.length === 0} 
             className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest w-full disabled:opacity-50"
           >
-            {loadingSubs ? 'Scanning History...' : 'Run Subscription Audit'}
+            {loadingSubs ? 'Reviewing...' : 'Ask DuoCoach About These'}
           </button>
           {subs && <div className="bg-slate-50 rounded-3xl p-6 text-left text-sm text-slate-600 whitespace-pre-wrap leading-relaxed border border-slate-100 prose prose-sm">{subs}</div>}
         </div>
@@ -360,24 +831,55 @@ export const AIAdvisor = memo(({ transactions, budgets, categories, isEnabled }:
 });
 
 export const SettingsView = memo(({ 
-  partnerNames, budgets, setBudgets, categories, syncUrl, setSyncUrl, lastSync, setLastSync, transactions, setTransactions 
-}: { partnerNames: PartnerNames, budgets: Record<string, number>, setBudgets: React.Dispatch<React.SetStateAction<Record<string, number>>>, categories: CategoryDefinition[], syncUrl: string, setSyncUrl: (url: string) => void, lastSync: string, setLastSync: (time: string) => void, transactions: Transaction[], setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>> }) => {
+  partnerNames, partnerProfiles, setPartnerProfiles, household, setHousehold, budgets, setBudgets, categories, onSaveCategory, onMergeCategory, categorization, setCategorization, settlementRules, setSettlementRules, syncUrl, setSyncUrl, syncAuth, setSyncAuth, onSync, onWipe, backupData, onRestore, snapshots, onRestoreSnapshot, devicePartner, setDevicePartner 
+}: { partnerNames: PartnerNames, partnerProfiles: PartnerProfiles, setPartnerProfiles: React.Dispatch<React.SetStateAction<PartnerProfiles>>, household: HouseholdSettings, setHousehold: React.Dispatch<React.SetStateAction<HouseholdSettings>>, budgets: Budgets, setBudgets: React.Dispatch<React.SetStateAction<Budgets>>, categories: CategoryDefinition[], onSaveCategory: (c: CategoryDefinition) => void, onMergeCategory: (fromId: string, toId: string) => void, categorization: CategorizationSettings, setCategorization: React.Dispatch<React.SetStateAction<CategorizationSettings>>, settlementRules: SettlementRules, setSettlementRules: React.Dispatch<React.SetStateAction<SettlementRules>>, syncUrl: string, setSyncUrl: (url: string) => void, syncAuth: SyncAuth, setSyncAuth: React.Dispatch<React.SetStateAction<SyncAuth>>, onSync: () => Promise<SyncOutcome>, onWipe: () => void, backupData: BackupData, onRestore: (incoming: BackupData, mode: RestoreMode) => void, snapshots: Snapshot[], onRestoreSnapshot: (id: string) => void, devicePartner: UserRole | '', setDevicePartner: (role: UserRole) => void }) => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [timeZoneDraft, setTimeZoneDraft] = useState(household.timeZone);
+  useEffect(() => setTimeZoneDraft(household.timeZone), [household.timeZone]);
+  const timeZones = useMemo(() => typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [], []);
+
+  const activeCategories = useMemo(() => categories.filter(c => !c.archived), [categories]);
+
+  const hasForeignEntries = useMemo(() => backupData.transactions.some(t => !t.deleted && !!t.currency), [backupData.transactions]);
+
+  const syncBackend = useMemo(() => backendFor(syncUrl), [syncUrl]);
+
+  const [showSecret, setShowSecret] = useState(false);
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(GOOGLE_APPS_SCRIPT_CODE);
+    // The script embeds the secret, so it has to exist before the code is useful
+    if (!syncAuth.secret) return alert("Set a household secret first; it is built into the script.");
+    navigator.clipboard.writeText(googleAppsScriptCode(syncAuth.secret, household.baseCurrency));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleBudgetChange = (catName: string, amount: number) => {
-    setBudgets((prev: Record<string, number>) => ({ ...prev, [catName]: amount }));
+  const updateProfile = (role: UserRole, patch: Partial<PartnerProfile>) => {
+    setPartnerProfiles(prev => ({ ...prev, [role]: { ...prev[role], ...patch }, updatedAt: new Date().toISOString() }));
+  };
+
+  const ratioFromIncome = incomeShare(partnerProfiles);
+
+  const handleTimeZoneChange = (value: string) => {
+    setTimeZoneDraft(value);
+    if (isValidTimeZone(value)) setHousehold(prev => ({ ...prev, timeZone: value, updatedAt: new Date().toISOString() }));
+  };
+
+  const updateRules = (patch: Partial<SettlementRules>) => {
+    setSettlementRules(prev => ({ ...prev, ...patch, updatedAt: new Date().toISOString() }));
+  };
+
+  const handleCategoryRuleChange = (catName: string, rule: SplitRule | undefined) => {
+    const categoryRules = { ...settlementRules.categoryRules };
+    if (rule) categoryRules[catName] = rule;
+    else delete categoryRules[catName];
+    updateRules({ categoryRules });
   };
 
   const handleClearTransactions = () => {
-    if (confirm("Delete all local transactions?")) {
-      setTransactions([]);
+    if (confirm("Delete all local transactions? A snapshot is kept below so this can be undone.")) {
+      onWipe();
     }
   };
 
@@ -413,9 +915,35 @@ export const SettingsView = memo(({
       <section className="space-y-4">
         <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Profiles</h2>
         <div className="grid grid-cols-2 gap-4">
-          <Card title="TRACY" accent="bg-indigo-500"><div className="w-full text-lg font-black text-slate-900 tracking-tight">Tracy</div></Card>
-          <Card title="TRISH" accent="bg-rose-500"><div className="w-full text-lg font-black text-slate-900 tracking-tight">Trish</div></Card>
+          {[UserRole.PARTNER_1, UserRole.PARTNER_2].map(role => {
+            const profile = partnerProfiles[role];
+            return (
+              <Card key={role} title={`${profile.avatar} ${profile.name}`} accentColor={profile.color}>
+                <div className="space-y-2">
+                  <input value={profile.name} onChange={e => updateProfile(role, { name: e.target.value })} className="w-full px-3 py-2 bg-slate-50 rounded-xl text-lg font-black text-slate-900 tracking-tight outline-none" placeholder="Name" />
+                  <div className="flex gap-2">
+                    <input value={profile.avatar} onChange={e => updateProfile(role, { avatar: e.target.value })} maxLength={4} className="w-14 px-2 py-2 bg-slate-50 rounded-xl text-center outline-none" aria-label="Avatar emoji" />
+                    <input type="color" value={profile.color} onChange={e => updateProfile(role, { color: e.target.value })} className="flex-1 h-10 rounded-xl bg-slate-50 outline-none cursor-pointer" aria-label="Color" />
+                  </div>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300 font-bold">{currencySymbol(household.baseCurrency)}</span>
+                    <input type="number" min={0} value={profile.monthlyIncome || ''} onChange={e => updateProfile(role, { monthlyIncome: Number(e.target.value) || undefined })} className="w-full pl-12 pr-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" placeholder="Monthly income" />
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
         </div>
+        <Card title="Household Timezone">
+          <div className="space-y-2">
+            <input list="ds-timezones" value={timeZoneDraft} onChange={e => handleTimeZoneChange(e.target.value)} className={`w-full px-4 py-3 rounded-xl outline-none font-bold text-sm ${isValidTimeZone(timeZoneDraft) ? 'bg-slate-50 text-slate-900' : 'bg-rose-50 text-rose-700'}`} placeholder="e.g. America/New_York" />
+            <datalist id="ds-timezones">
+              {timeZones.map(z => <option key={z} value={z} />)}
+            </datalist>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Months, quarters and years start at midnight here, on both phones</p>
+          </div>
+        </Card>
+        <CurrencySettings household={household} setHousehold={setHousehold} hasForeignEntries={hasForeignEntries} />
       </section>
 
       <section className="space-y-4">
@@ -428,7 +956,7 @@ export const SettingsView = memo(({
              </div>
              <div className="flex gap-3">
                <span className="bg-slate-900 text-white w-5 h-5 rounded-full flex items-center justify-center shrink-0 text-[10px] font-black">2</span>
-               <p>Open your <strong>Vercel Dashboard</strong>. Go to <strong>Settings > Environment Variables</strong>. Add a new variable called <code className="bg-slate-100 px-1 font-black">API_KEY</code> and paste your key there.</p>
+               <p>Open your <strong>Vercel Dashboard</strong>. Go to <strong>Settings &gt; Environment Variables</strong>. Add a new variable called <code className="bg-slate-100 px-1 font-black">API_KEY</code> and paste your key there.</p>
              </div>
              <div className="flex gap-3">
                <span className="bg-slate-900 text-white w-5 h-5 rounded-full flex items-center justify-center shrink-0 text-[10px] font-black">3</span>
@@ -439,41 +967,85 @@ export const SettingsView = memo(({
       </section>
 
       <section className="space-y-4">
-        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Monthly Budgets</h2>
-        <Card title="Adjust Limits">
-          <div className="space-y-4 max-h-[300px] overflow-y-auto no-scrollbar py-2">
-            {categories.map((cat: CategoryDefinition) => (
-              <div key={cat.id} className="flex items-center gap-3">
-                <span className="w-8 text-center">{cat.icon}</span>
-                <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">{cat.name}</span>
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Categories</h2>
+        <CategoryManager categories={categories} onSave={onSaveCategory} onMerge={onMergeCategory} />
+        <CategoryRulesEditor categorization={categorization} setCategorization={setCategorization} categories={activeCategories} />
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Budgets</h2>
+        <BudgetEditor budgets={budgets} setBudgets={setBudgets} categories={activeCategories} partnerNames={partnerNames} month={currentPeriod('month', household.timeZone).start.slice(0, 7)} baseCurrency={household.baseCurrency} />
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Alerts</h2>
+        <AlertSettings partnerProfiles={partnerProfiles} devicePartner={devicePartner} setDevicePartner={setDevicePartner} onChange={(role, alerts) => updateProfile(role, { alerts })} />
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Split Rules</h2>
+        <Card title="Settlement Ratio">
+          <div className="space-y-4">
+            <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500 tracking-tight">
+              <input type="checkbox" checked={settlementRules.useIncomeRatio} onChange={e => updateRules({ useIncomeRatio: e.target.checked })} />
+              Split in proportion to income
+            </label>
+            {settlementRules.useIncomeRatio && ratioFromIncome === null && (
+              <p className="text-[9px] font-bold text-rose-400 uppercase tracking-widest">Enter both incomes above; using the fixed share until then</p>
+            )}
+            {!(settlementRules.useIncomeRatio && ratioFromIncome !== null) && (
+              <div className="flex items-center gap-3">
+                <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">Default: {partnerNames[UserRole.PARTNER_1]}'s share</span>
                 <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300 font-bold">$</span>
-                  <input type="number" value={budgets[cat.name] || 0} onChange={e => handleBudgetChange(cat.name, Number(e.target.value))} className="w-24 pl-6 pr-3 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" />
+                  <input type="number" min={0} max={100} value={Math.round(settlementRules.defaultPartner1Share * 100)} onChange={e => updateRules({ defaultPartner1Share: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })} className="w-24 pl-3 pr-7 py-2 bg-slate-50 rounded-xl font-black text-right outline-none text-sm" />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-300 font-bold">%</span>
                 </div>
               </div>
-            ))}
+            )}
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{describeSplitRule({ kind: 'shared', partner1Share: settlementRules.useIncomeRatio && ratioFromIncome !== null ? ratioFromIncome : settlementRules.defaultPartner1Share }, partnerNames)}</p>
+            <div className="space-y-3 max-h-[300px] overflow-y-auto no-scrollbar pt-3 border-t border-slate-50">
+              {activeCategories.map((cat: CategoryDefinition) => (
+                <div key={cat.id} className="flex items-center gap-3">
+                  <span className="w-8 text-center">{cat.icon}</span>
+                  <span className="flex-1 text-[10px] font-black uppercase text-slate-500 tracking-tight">{cat.name}</span>
+                  <SplitRuleSelect value={settlementRules.categoryRules[cat.name]} onChange={rule => handleCategoryRuleChange(cat.name, rule)} partnerNames={partnerNames} className="w-48" />
+                </div>
+              ))}
+            </div>
           </div>
         </Card>
       </section>
 
       <section className="space-y-4">
         <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Cloud Connection</h2>
-        <Card title="Script Engine v4.8">
+        <Card title="Household Secret">
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input type={showSecret ? 'text' : 'password'} value={syncAuth.secret} onChange={e => setSyncAuth(a => ({ ...a, secret: e.target.value.trim() }))} className="flex-1 min-w-0 px-4 py-3 bg-slate-50 rounded-xl outline-none font-bold text-sm font-mono" placeholder="Same on both phones" autoComplete="off" />
+              <button onClick={() => setShowSecret(s => !s)} className="px-3 rounded-xl bg-slate-50 text-[9px] font-black uppercase text-slate-400">{showSecret ? 'Hide' : 'Show'}</button>
+            </div>
+            {!syncAuth.secret && (
+              <button onClick={() => { setSyncAuth(a => ({ ...a, secret: generateSecret() })); setShowSecret(true); }} className="w-full py-3 rounded-2xl bg-indigo-50 text-indigo-600 font-black uppercase text-[10px] tracking-widest">Generate Secret</button>
+            )}
+            <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-500 tracking-tight">
+              <input type="checkbox" checked={syncAuth.encrypt} disabled={!syncAuth.secret} onChange={e => setSyncAuth(a => ({ ...a, encrypt: e.target.checked }))} />
+              Encrypt entries end-to-end (the sheet only stores ciphertext)
+            </label>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Every sync is signed with this secret. Enter it on both phones, then copy the script again.</p>
+          </div>
+        </Card>
+        <Card title="Script Engine v6.2">
           <button onClick={handleCopy} className={`w-full py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest transition-all ${copied ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-900'}`}>{copied ? '✅ Code Copied!' : '📋 Copy Script Code'}</button>
           <div className="space-y-2 mt-6">
-            <input value={syncUrl} onChange={e => setSyncUrl(e.target.value)} className={`w-full px-4 py-4 rounded-xl outline-none font-bold text-sm ${syncUrl.includes('exec') ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`} placeholder="Paste the NEW Web App URL here..." />
+            <input value={syncUrl} onChange={e => setSyncUrl(e.target.value)} className={`w-full px-4 py-4 rounded-xl outline-none font-bold text-sm ${syncBackend ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`} placeholder="Paste the Web App or sync server URL here..." />
+            {syncBackend && <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-1">Syncing with: {syncBackend.label}</p>}
           </div>
           <button onClick={async () => { 
-            if (!syncUrl || !syncUrl.includes('exec')) return alert("Enter valid URL.");
+            if (!syncBackend) return alert("Enter valid URL.");
             setIsSyncing(true); 
             try {
-              const d = await performSync(syncUrl, transactions, budgets); 
-              if (d.transactions) {
-                setTransactions(d.transactions); 
-                if (d.budgets) setBudgets(d.budgets); 
-                setLastSync(new Date().toLocaleTimeString());
-                alert("Cloud Sync Successful!");
-              }
+              const outcome = await onSync();
+              alert(outcome === 'queued' ? "Saved — will sync when back online" : "Cloud Sync Successful!");
             } catch (err) { alert("Sync failed."); }
             setIsSyncing(false); 
           }} className="w-full mt-4 bg-slate-900 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest">
@@ -482,6 +1054,28 @@ export const SettingsView = memo(({
         </Card>
       </section>
 
+      <section className="space-y-4">
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Your Data</h2>
+        <BackupPanel data={backupData} partnerNames={partnerNames} onRestore={onRestore} />
+        <Card title="Automatic Snapshots">
+          {snapshots.length === 0 ? (
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Taken before every sync, wipe or rollback</p>
+          ) : (
+            <div className="space-y-3">
+              {snapshots.map(s => (
+                <div key={s.id} className="flex justify-between items-center">
+                  <div>
+                    <h4 className="font-bold text-slate-900 text-sm">{new Date(s.takenAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</h4>
+                    <p className="text-[10px] font-black text-slate-400 uppercase">Before {s.reason} · {s.data.transactions.filter(t => !t.deleted).length} entries</p>
+                  </div>
+                  <button onClick={() => { if (confirm("Roll back to this snapshot? Entries added since then move to the trash, and the rollback syncs to the other phone.")) onRestoreSnapshot(s.id); }} className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-700">Restore</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </section>
+
       <section className="space-y-6 pt-4 text-center">
         <button onClick={handleForceRefresh} className="w-full bg-slate-50 text-slate-400 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest border border-slate-100">🚀 Force App Update (v4.8)</button>
         <button onClick={handleClearTransactions} className="text-[10px] font-black text-rose-500 uppercase tracking-widest mt-4">🗑️ Wipe Local Data</button>
@@ -42,4 +42,26 @@ export const CATEGORY_ICONS: Record<string, string> = {
   [Category.PETS]: '🐾',
   [Category.HOUSE_REPAIRS]: '🔨',
   [Category.ONE_TIME]: '📦'
-};
\ No newline at end of file
+};
+// Words that point at a default category when typed or seen in a merchant name (lowercase, whole words)
+export const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  [Category.MEDICAL]: ['doctor', 'dentist', 'pharmacy', 'cvs', 'walgreens', 'hospital', 'clinic', 'prescription', 'meds', 'copay'],
+  [Category.HEALTH_FITNESS]: ['gym', 'yoga', 'fitness', 'vitamins', 'protein', 'pilates', 'climbing'],
+  [Category.GROOMING]: ['haircut', 'barber', 'salon', 'nails', 'shampoo', 'makeup', 'sephora'],
+  [Category.CLOTHES]: ['clothes', 'shoes', 'shirt', 'jeans', 'dress', 'jacket', 'socks'],
+  [Category.FOOD]: ['groceries', 'grocery', 'supermarket', 'trader', 'safeway', 'kroger', 'aldi', 'produce', 'milk'],
+  [Category.HOUSEWARES]: ['housewares', 'ikea', 'target', 'towels', 'kitchen', 'furniture', 'cleaning'],
+  [Category.GAMBLING]: ['casino', 'lottery', 'poker', 'bet', 'draftkings'],
+  [Category.ENTERTAINMENT]: ['movie', 'movies', 'cinema', 'concert', 'tickets', 'netflix', 'spotify', 'games', 'steam'],
+  [Category.GIFTS]: ['gift', 'gifts', 'present', 'birthday', 'flowers'],
+  [Category.GAS]: ['gas', 'fuel', 'shell', 'chevron', 'exxon', 'petrol'],
+  [Category.AUTO_REPAIRS]: ['mechanic', 'tires', 'oil', 'carwash', 'autozone', 'repair'],
+  [Category.UTILITIES]: ['electric', 'electricity', 'water', 'internet', 'phone', 'comcast', 'verizon', 'utilities'],
+  [Category.TAX_INSURANCE]: ['insurance', 'tax', 'taxes', 'geico', 'premium'],
+  [Category.TRAVEL]: ['flight', 'flights', 'hotel', 'airbnb', 'uber', 'lyft', 'train', 'airline', 'parking'],
+  [Category.BEERS]: ['beer', 'beers', 'bar', 'pub', 'brewery', 'wine', 'drinks'],
+  [Category.DINING_OUT]: ['restaurant', 'dinner', 'lunch', 'breakfast', 'brunch', 'takeout', 'pizza', 'sushi', 'coffee', 'starbucks', 'doordash'],
+  [Category.PETS]: ['vet', 'petco', 'petsmart', 'kibble', 'dog', 'cat'],
+  [Category.HOUSE_REPAIRS]: ['plumber', 'electrician', 'depot', 'lowes', 'hardware', 'garage', 'paint'],
+  [Category.ONE_TIME]: [],
+};
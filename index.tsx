@@ -1,20 +1,25 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadState } from './utils/storage';
+import { registerServiceWorker } from './utils/offline';
 
-const mountApp = () => {
+const mountApp = async () => {
   const rootElement = document.getElementById('root');
   if (!rootElement) {
     console.error("Could not find root element to mount to");
     return;
   }
 
+  // Data lives in IndexedDB, which is async, so it is read once before the first render
+  const initial = await loadState();
   const root = ReactDOM.createRoot(rootElement);
   root.render(
     <React.StrictMode>
-      <App />
+      <App initial={initial} />
     </React.StrictMode>
   );
+  registerServiceWorker();
 };
 
 // Ensure DOM is ready
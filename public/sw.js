@@ -0,0 +1,77 @@
+// DuoSpend service worker: keeps the app shell available offline and wakes open tabs to replay queued syncs.
+// Bump VERSION with each release so old caches are dropped on activate.
+const VERSION = '4.8';
+const SHELL_CACHE = `ds-shell-${VERSION}`;
+const CDN_CACHE = `ds-cdn-${VERSION}`;
+const SHELL = ['./', './index.html', './manifest.json'];
+
+// Tailwind, fonts, the import map's modules and the app icon; everything else cross-origin (sync, Gemini) goes straight to the network
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh', 'cdn-icons-png.flaticon.com'];
+
+self.addEventListener('install', event => {
+  // One missing file (e.g. a host that doesn't serve manifest.json) shouldn't stop the worker installing
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => Promise.all(SHELL.map(url => cache.add(url).catch(err => console.warn(`Could not cache ${url}`, err)))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(n => n !== SHELL_CACHE && n !== CDN_CACHE).map(n => caches.delete(n))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// App files: network first so a deploy shows up immediately, cache when offline
+const networkFirst = async (request, fallback) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || (fallback && await cache.match(fallback));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// CDN files are versioned by URL, so serve the cached copy and refresh it in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CDN_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, './index.html'));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Sync itself runs in the page (it needs the app's data and merge logic); with no tab open the
+// queue stays in IndexedDB and is replayed on next launch
+self.addEventListener('sync', event => {
+  if (event.tag !== 'ds-sync') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(clients => clients.forEach(client => client.postMessage({ type: 'ds-sync' })))
+  );
+});
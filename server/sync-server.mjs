@@ -0,0 +1,181 @@
+/**
+ * DuoSpend self-hosted sync server. Speaks the same protocol as the Apps Script (see
+ * utils/syncBackend.ts) and keeps everything in one JSON file. No dependencies beyond Node.
+ *
+ *   HOUSEHOLD_SECRET=... PORT=8787 DATA_FILE=./duospend-data.json node server/sync-server.mjs
+ */
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.DATA_FILE || './duospend-data.json';
+const HOUSEHOLD_SECRET = process.env.HOUSEHOLD_SECRET || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+const RECORD_KEYS = ['transactions', 'settlements', 'recurring', 'categories', 'goals', 'goalContributions'];
+const SETTING_KEYS = ['settlementRules', 'partnerProfiles', 'household', 'categorization'];
+
+// Same rule as the app and the script: newer updatedAt wins, then the tombstone, then the larger serialization
+const pickWinner = (a, b) => {
+  if (!a) return b;
+  if (!b) return a;
+  const aTime = a.updatedAt || '';
+  const bTime = b.updatedAt || '';
+  if (aTime !== bTime) return aTime > bTime ? a : b;
+  if (!!a.deleted !== !!b.deleted) return a.deleted ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+// In memory, records are kept by id; on disk they are plain arrays so the file stays readable
+const load = async () => {
+  let saved = {};
+  try {
+    saved = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+  const state = { budgets: saved.budgets || {} };
+  for (const key of RECORD_KEYS) {
+    state[key] = new Map((saved[key] || []).map(r => [String(r.id), r]));
+  }
+  for (const key of SETTING_KEYS) state[key] = saved[key] || null;
+  return state;
+};
+
+const serialize = state => {
+  const out = { budgets: state.budgets };
+  for (const key of RECORD_KEYS) out[key] = Array.from(state[key].values());
+  for (const key of SETTING_KEYS) out[key] = state[key];
+  return out;
+};
+
+// Written to a temp file and renamed, so a crash mid-write never leaves a half-written store
+const save = async state => {
+  const tmp = `${DATA_FILE}.tmp`;
+  await writeFile(tmp, JSON.stringify(serialize(state)));
+  await rename(tmp, DATA_FILE);
+};
+
+const applySync = (state, data) => {
+  let changed = false;
+  for (const key of RECORD_KEYS) {
+    for (const record of Array.isArray(data[key]) ? data[key] : []) {
+      if (!record || record.id === undefined || record.id === null) continue;
+      const id = String(record.id);
+      const current = state[key].get(id);
+      if (pickWinner(current, record) !== current) {
+        state[key].set(id, { ...record, id });
+        changed = true;
+      }
+    }
+  }
+  if (data.budgets && typeof data.budgets === 'object') {
+    for (const [category, budget] of Object.entries(data.budgets)) {
+      if (budget && pickWinner(state.budgets[category], budget) !== state.budgets[category]) {
+        state.budgets[category] = budget;
+        changed = true;
+      }
+    }
+  }
+  for (const key of SETTING_KEYS) {
+    if (data[key] && pickWinner(state[key], data[key]) !== state[key]) {
+      state[key] = data[key];
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+// nonce -> when it was seen; entries older than twice the window can't be replayed anyway
+const seenNonces = new Map();
+
+// Must match verifyEnvelope in utils/syncAuth.ts: HMAC over ts.nonce.body, a fresh timestamp and an unseen nonce
+const verifyRequest = envelope => {
+  const signed = envelope && envelope.signed === true && typeof envelope.body === 'string' && typeof envelope.sig === 'string';
+  if (!HOUSEHOLD_SECRET) return signed ? JSON.parse(envelope.body) : envelope;
+  if (!signed) throw new Error('Unsigned request rejected');
+  const now = Date.now();
+  const ts = Number(envelope.ts);
+  if (!ts || Math.abs(now - ts) > REPLAY_WINDOW_MS) throw new Error("Request expired; check the phone's clock");
+  const expected = createHmac('sha256', HOUSEHOLD_SECRET).update(`${envelope.ts}.${envelope.nonce}.${envelope.body}`).digest();
+  const given = Buffer.from(envelope.sig, 'base64');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) throw new Error('Bad signature; check the household secret');
+  for (const [nonce, seenAt] of seenNonces) {
+    if (now - seenAt > REPLAY_WINDOW_MS * 2) seenNonces.delete(nonce);
+  }
+  if (seenNonces.has(envelope.nonce)) throw new Error('Replayed request rejected');
+  seenNonces.set(envelope.nonce, now);
+  return JSON.parse(envelope.body);
+};
+
+const isObject = value => !!value && typeof value === 'object' && !Array.isArray(value);
+const NOT_AN_OBJECT = { status: 'error', message: 'Request body must be a JSON object' };
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Request too large'), { statusCode: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const send = (res, statusCode, body) => {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const state = await load();
+// Requests are applied one at a time, like the script's LockService
+let queue = Promise.resolve();
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET') return send(res, 200, { status: 'ok', service: 'duospend-sync' });
+  if (req.method !== 'POST') return send(res, 405, { status: 'error', message: 'Method not allowed' });
+
+  let data;
+  try {
+    data = JSON.parse(await readBody(req));
+    if (!isObject(data)) return send(res, 400, NOT_AN_OBJECT);
+  } catch (err) {
+    return send(res, err.statusCode || 400, { status: 'error', message: err.statusCode ? err.message : 'Invalid JSON' });
+  }
+  try {
+    data = verifyRequest(data);
+  } catch (err) {
+    return send(res, 200, { status: 'error', message: err.message });
+  }
+  // A signed envelope can wrap any JSON, so what it carries is checked the same way
+  if (!isObject(data)) return send(res, 400, NOT_AN_OBJECT);
+  if (data.action !== 'sync') return send(res, 200, { status: 'error', message: `Unknown action: ${data.action}` });
+
+  const job = queue.then(async () => {
+    if (applySync(state, data)) await save(state);
+    return { status: 'success', ...serialize(state) };
+  });
+  queue = job.catch(() => {});
+  try {
+    send(res, 200, await job);
+  } catch (err) {
+    console.error('Sync failed', err);
+    send(res, 200, { status: 'error', message: String(err) });
+  }
+});
+
+if (!HOUSEHOLD_SECRET) console.warn('HOUSEHOLD_SECRET is not set: accepting unsigned requests. Only do this on a private network.');
+server.listen(PORT, () => console.log(`DuoSpend sync server on http://localhost:${PORT} (data: ${DATA_FILE})`));
@@ -1,7 +1,19 @@
-import { GoogleGenAI } from "@google/genai";
-import { Transaction, CategoryDefinition } from "../types";
+import { GoogleGenAI, GenerateContentParameters, Type } from "@google/genai";
+import { CategoryDefinition } from "../types";
+import { ReceiptImage, ReceiptExtraction, parseReceiptExtraction } from "../utils/receipts";
+import { QuickEntryContext, QuickEntryDraft, draftFromAI } from "../utils/quickEntry";
+import { DetectedCharge, monthlyCost } from "../utils/subscriptions";
+import { CoachFacts, CoachMessage, CoachTip, parseCoachTips } from "../utils/coach";
+import { formatCurrency } from "../utils/currency";
 
-const getAIClient = () => {
+/** The part of the SDK these helpers call, so a stub can stand in for it without a key or network. */
+export interface AIClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
+
+const getAIClient = (): AIClient | null => {
   const apiKey = process.env.API_KEY;
   // Handle various falsy states from build-time environment variable injection
   if (!apiKey || apiKey === 'undefined' || apiKey === '' || apiKey === 'null') return null;
@@ -14,60 +26,192 @@ const getAIClient = () => {
   }
 };
 
-export const analyzeSpending = async (transactions: Transaction[], budgets: Record<string, number>, categories: CategoryDefinition[]): Promise<string> => {
-  const ai = getAIClient();
-  if (!ai) {
+const COACH_PERSONA = "You are 'DuoCoach', a sharp financial advisor for couples. Be warm but professional. Base every figure on the FACTS JSON; never invent amounts, merchants or trends that are not in it, and say so when the facts don't answer a question.";
+
+const factsBlock = (facts: CoachFacts) => `FACTS (month to date, household currency):\n${JSON.stringify(facts)}`;
+
+/**
+ * Up to 3 tips as structured cards, grounded in precomputed facts rather than raw entries.
+ * Null when there is no client or the reply was unusable.
+ */
+export const analyzeSpending = async (facts: CoachFacts, client: AIClient | null = getAIClient()): Promise<CoachTip[] | null> => {
+  if (!client) {
     console.warn("DuoCoach: API Key not found. Please check your environment variables.");
-    return "AI Coach is currently offline. Ensure your API Key is set in Vercel.";
+    return null;
   }
+  const categoryNames = facts.categories.map(c => c.name);
 
-  const summary = transactions
-    .sort((a, b) => b.date.localeCompare(a.date))
-    .slice(0, 30) // Only analyze recent transactions to avoid context bloat
-    .map(t => `${t.date}: ${t.description} - $${t.totalAmount} (${t.splits[0]?.categoryName})`)
-    .join('\n');
-    
-  const budgetSummary = Object.entries(budgets)
-    .filter(([_, amt]) => amt > 0)
-    .map(([cat, amt]) => `${cat}: $${amt}`)
-    .join('\n');
-  
   try {
-    const response = await ai.models.generateContent({
+    const response = await client.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Analyze this couple's shared finances:\n\nRECENT SPENDING:\n${summary}\n\nMONTHLY LIMITS:\n${budgetSummary}`,
+      contents: `${factsBlock(facts)}\n\nGive this couple up to 3 concise, actionable tips for this month. Focus on shared savings and equity.`,
       config: {
-        systemInstruction: "You are 'DuoCoach', a sharp financial advisor for couples. Provide exactly 3 concise, actionable tips based on their spending. Focus on shared savings and equity. Be warm but professional. Use emojis.",
+        systemInstruction: `${COACH_PERSONA} Each tip names the category it is about (or "General"), a realistic monthly saving in the household currency (0 when it is not about saving), and a one or two sentence rationale that cites the facts.`,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            tips: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: [...categoryNames, 'General'] },
+                  estimatedMonthlySavings: { type: Type.NUMBER },
+                  rationale: { type: Type.STRING },
+                },
+                required: ['title', 'category', 'estimatedMonthlySavings', 'rationale'],
+              },
+            },
+          },
+          required: ['tips'],
+        },
       },
     });
-    return response.text || "No specific insights found for your data yet.";
+    return parseCoachTips(JSON.parse(response.text || 'null'), categoryNames);
   } catch (err: any) {
     console.error("DuoCoach Error:", err);
-    return `AI Connection Issue: ${err?.message || "Please check your API key and connection."}`;
+    return null;
   }
 };
 
-export const detectSubscriptions = async (transactions: Transaction[]): Promise<string | null> => {
-  const ai = getAIClient();
-  if (!ai) return null;
+/** Answers a follow-up in the session's thread; `messages` ends with the question being asked. */
+export const askCoach = async (facts: CoachFacts, tips: CoachTip[] | null, messages: CoachMessage[], client: AIClient | null = getAIClient()): Promise<string | null> => {
+  if (!client) return null;
+  const given = tips && tips.length > 0 ? `\n\nTIPS ALREADY GIVEN:\n${tips.map(t => `- ${t.title}: ${t.rationale}`).join('\n')}` : '';
 
-  const history = transactions
-    .sort((a, b) => b.date.localeCompare(a.date))
-    .slice(0, 50)
-    .map(t => `${t.description} ($${t.totalAmount}) on ${t.date}`)
+  try {
+    const response = await client.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: messages.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+      config: {
+        systemInstruction: `${COACH_PERSONA} Answer follow-up questions in a few sentences, pointing at the categories and merchants behind a change.\n\n${factsBlock(facts)}${given}`,
+      },
+    });
+    return response.text || null;
+  } catch (err: any) {
+    console.error("DuoCoach Chat Error:", err);
+    return null;
+  }
+};
+
+/**
+ * Commentary on the charges found by detectRecurringCharges. The numbers come from the detector;
+ * the model is only asked which ones look forgotten or worth cancelling.
+ */
+export const reviewRecurringCharges = async (charges: DetectedCharge[], currency: string, client: AIClient | null = getAIClient()): Promise<string | null> => {
+  if (!client) return null;
+
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const table = charges
+    .map(c => `${c.merchant} | ${c.cadence} | ${money(c.lastAmount)} (~${money(monthlyCost(c))}/month) | last ${c.lastDate}, next ${c.nextDate}${c.lapsed ? ' (overdue, maybe cancelled)' : ''}${c.priceChanges.map(p => ` | price ${money(p.from)} -> ${money(p.to)} on ${p.date}`).join('')}${c.trackedBy ? ' | already tracked' : ''}`)
     .join('\n');
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await client.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Audit this history for recurring subscription charges:\n\n${history}`,
+      contents: `Recurring charges found in a couple's shared history:\n\n${table}`,
       config: {
-        systemInstruction: "Identify potential hidden or ghost subscriptions (Netflix, Apps, Gym, etc.). Provide a list with merchant name and estimated monthly cost. If none are found, state 'No recurring subscriptions detected.'",
+        systemInstruction: "You are 'DuoCoach'. Comment briefly on these detected recurring charges: which look like forgotten or overlapping subscriptions, which price rises deserve a look, and what cancelling them would save. Use only the figures given; never invent charges or amounts. At most 5 short bullet points.",
       },
     });
-    return response.text ?? "No recurring subscriptions detected.";
+    return response.text || null;
   } catch (err: any) {
     console.error("DuoCoach Audit Error:", err);
     return `Unable to run audit: ${err?.message || "Check your API configuration."}`;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Reads merchant, date, total and line items off a receipt photo, with each line filed under one
+ * of our categories. Null when there is no client or nothing usable came back.
+ */
+export const extractReceipt = async (image: Pick<ReceiptImage, 'mimeType' | 'data'>, categories: CategoryDefinition[], client: AIClient | null = getAIClient()): Promise<ReceiptExtraction | null> => {
+  if (!client) return null;
+  const categoryNames = categories.map(c => c.name);
+
+  try {
+    const response = await client.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: `Read this receipt. File every line item under one of these categories:\n${categoryNames.join('\n')}` },
+        ],
+      }],
+      config: {
+        systemInstruction: "You extract data from shopping receipts. Use the amount paid per line after any line discount. Leave tax, deposits and bag fees out of the items; they are covered by the total. Dates are YYYY-MM-DD. Currency is the ISO 4217 code if the receipt shows one.",
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            merchant: { type: Type.STRING },
+            date: { type: Type.STRING },
+            total: { type: Type.NUMBER },
+            currency: { type: Type.STRING },
+            items: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  amount: { type: Type.NUMBER },
+                  category: { type: Type.STRING, enum: categoryNames },
+                },
+                required: ['description', 'amount', 'category'],
+              },
+            },
+          },
+          required: ['merchant', 'total', 'items'],
+        },
+      },
+    });
+    return parseReceiptExtraction(JSON.parse(response.text || 'null'), categoryNames);
+  } catch (err: any) {
+    console.error("DuoCoach Receipt Error:", err);
+    return null;
+  }
+};
+
+/** Fallback for quick-entry text the offline parser wasn't sure about; the result is still reviewed before saving. */
+export const parseQuickEntryWithAI = async (text: string, ctx: QuickEntryContext, client: AIClient | null = getAIClient()): Promise<QuickEntryDraft | null> => {
+  if (!client) return null;
+  const categoryNames = ctx.categories.map(c => c.name);
+
+  try {
+    const response = await client.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Today is ${ctx.today}. PARTNER_1 is ${ctx.partnerNames.PARTNER_1}, PARTNER_2 is ${ctx.partnerNames.PARTNER_2}.\nCategories:\n${categoryNames.join('\n')}\n\nExpense note: ${text}`,
+      config: {
+        systemInstruction: "Turn a couple's short expense note into one expense. Amounts are in the note's currency without symbols. When several amounts are given with categories, return one split per category; when the first amount is the total of the others, leave it out. Payer is PARTNER_1 or PARTNER_2 if the note names one, otherwise omit it. Dates are YYYY-MM-DD and never after today.",
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            description: { type: Type.STRING },
+            date: { type: Type.STRING },
+            payer: { type: Type.STRING, enum: ['PARTNER_1', 'PARTNER_2'] },
+            splits: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  category: { type: Type.STRING, enum: categoryNames },
+                  amount: { type: Type.NUMBER },
+                },
+                required: ['category', 'amount'],
+              },
+            },
+          },
+          required: ['description', 'splits'],
+        },
+      },
+    });
+    return draftFromAI(JSON.parse(response.text || 'null'), ctx);
+  } catch (err: any) {
+    console.error("DuoCoach Quick Entry Error:", err);
+    return null;
+  }
+};
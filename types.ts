@@ -1,8 +1,15 @@
-export interface CategoryDefinition {
+export interface SyncRecord {
   id: string;
+  updatedAt: string; // ISO string, stamped on every local change
+  deleted?: boolean; // Tombstone: kept so deletes propagate through sync
+}
+
+export interface CategoryDefinition extends SyncRecord {
   name: string;
   color: string;
   icon: string;
+  archived?: boolean; // Hidden from pickers and budgets, kept for history
+  aliases?: string[]; // Former names (renames and merges), remapped when they arrive through sync
 }
 
 export enum Category {
@@ -37,34 +44,167 @@ export interface PartnerNames {
   [UserRole.PARTNER_2]: string;
 }
 
+export interface PartnerProfile {
+  name: string;
+  color: string;
+  avatar: string; // Emoji
+  monthlyIncome?: number; // Used for income-proportional splits
+  alerts?: AlertPreferences; // Which alerts this partner gets on their own phone
+}
+
+export interface AlertPreferences {
+  categoryWarning: boolean; // A category reached 80% of its budget
+  categoryOver: boolean; // A category reached 100% of its budget
+  totalOver: boolean; // This month's spend is over the total budget
+  largeExpense: number | null; // A single expense at or above this amount
+  balanceAbove: number | null; // The outstanding settle-up balance is above this amount
+  notifications: boolean; // Also raise a system notification, not just an in-app banner
+}
+
+export interface PartnerProfiles {
+  [UserRole.PARTNER_1]: PartnerProfile;
+  [UserRole.PARTNER_2]: PartnerProfile;
+  updatedAt: string; // ISO string, last edit wins on sync
+}
+
+export interface HouseholdSettings {
+  timeZone: string; // IANA zone that month/period boundaries are computed in
+  baseCurrency: string; // ISO 4217 code every amount, budget and balance is kept in
+  exchangeRates: ExchangeRate[];
+  updatedAt: string; // ISO string, last edit wins on sync
+}
+
+// Entered by hand or imported from a file; there is no live feed
+export interface ExchangeRate {
+  currency: string; // ISO 4217 code
+  rate: number; // Base currency per 1 unit of `currency`
+  date: string; // YYYY-MM-DD it applies from, until a newer rate for the same currency
+}
+
+export type BudgetPeriodicity = 'monthly' | 'quarterly' | 'annual';
+
+// One edit of a category's budget; it applies from its month until the next version
+export interface BudgetVersion {
+  from: string; // YYYY-MM
+  limit: number | null; // Per period; null means "no budget", which is not the same as $0
+  periodicity: BudgetPeriodicity;
+  rollover: boolean; // Unspent (or overspent) amounts carry into the next period
+  allowances?: Partial<Record<UserRole, number>>; // Per-partner limits; when set, they sum to the limit
+}
+
+export interface CategoryBudget {
+  versions: BudgetVersion[]; // Sorted by `from`
+  updatedAt: string; // ISO string, last edit wins on sync
+}
+
+// Keyed by category name; a category without an entry has no budget
+export type Budgets = Record<string, CategoryBudget>;
+
 export interface TransactionSplit {
   categoryName: string;
   amount: number;
 }
 
-export interface Transaction {
+// How one expense is divided between the partners
+export type SplitRule =
+  | { kind: 'shared'; partner1Share: number } // Fraction (0-1) carried by PARTNER_1, the rest by PARTNER_2
+  | { kind: 'personal' }; // 100% carried by whoever paid
+
+export interface SettlementRules {
+  defaultPartner1Share: number;
+  useIncomeRatio: boolean; // Derive the default share from partner incomes when both are set
+  categoryRules: Record<string, SplitRule>;
+  updatedAt: string; // ISO string, last edit wins on sync
+}
+
+export type CategoryRuleMatch = 'contains' | 'startsWith' | 'exact';
+
+// "contains SHELL -> Gas"; checked in order before anything learned from history
+export interface CategoryRule {
   id: string;
+  pattern: string; // Compared case-insensitively with the description
+  match: CategoryRuleMatch;
+  categoryName: string;
+}
+
+export interface CategorizationSettings {
+  rules: CategoryRule[]; // First match wins
+  autoApplyThreshold: number; // 0-1; suggestions at least this confident fill the category in, weaker ones are only offered
+  updatedAt: string; // ISO string, last edit wins on sync
+}
+
+export interface Transaction extends SyncRecord {
   totalAmount: number;
   splits: TransactionSplit[];
   date: string; // ISO string
   description: string;
   userId: UserRole;
+  splitRule?: SplitRule; // Overrides the category and default rules for every split
+  recurringId?: string; // Template this entry was generated from
+  // Paid in another currency: totalAmount and splits are converted to the base currency, these keep what was charged
+  currency?: string; // ISO 4217 code
+  originalAmount?: number; // Total in `currency`
+  exchangeRate?: number; // Base currency per 1 unit of `currency`, as used when saved
+  receiptId?: string; // Photo kept on the phone that scanned it (see saveReceipt); only the id syncs
 }
 
-export interface Goal {
-  id: string;
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  startDate: string; // YYYY-MM-DD, first occurrence
+  dayOfMonth?: number; // Monthly/yearly only; clamped to the month's last day
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface RecurringTemplate extends SyncRecord {
+  description: string;
+  userId: UserRole; // Default payer
+  splits: TransactionSplit[];
+  rule: RecurrenceRule;
+  splitRule?: SplitRule;
+  paused?: boolean;
+}
+
+// A "settle up" payment from one partner to the other
+export interface Settlement extends SyncRecord {
+  payer: UserRole;
+  payee: UserRole;
+  amount: number;
+  date: string; // ISO string
+  note: string;
+}
+
+export interface Goal extends SyncRecord {
   name: string;
   target: number;
-  current: number;
   icon: string;
+  targetDate?: string; // YYYY-MM-DD
+}
+
+// Kept as separate records so both partners can fund the same goal offline without conflicts
+export interface GoalContribution extends SyncRecord {
+  goalId: string;
+  userId: UserRole;
+  amount: number;
+  date: string; // ISO string
+  note?: string;
 }
 
 export interface AppState {
   transactions: Transaction[];
-  budgets: Record<string, number>;
+  settlements: Settlement[];
+  recurring: RecurringTemplate[];
+  budgets: Budgets;
+  settlementRules: SettlementRules;
   categories: CategoryDefinition[];
-  partnerNames: PartnerNames;
+  partnerProfiles: PartnerProfiles;
+  household: HouseholdSettings;
+  categorization: CategorizationSettings;
   goals: Goal[];
+  goalContributions: GoalContribution[];
   syncUrl?: string;
   lastSync?: string;
+  syncCursor?: string;
 }
\ No newline at end of file
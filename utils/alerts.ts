@@ -0,0 +1,115 @@
+import { AlertPreferences, Budgets, CategoryDefinition, PartnerNames, PartnerProfile, Settlement, SettlementRules, Transaction } from '../types';
+import { currentPeriod, dayKeyIn } from './period';
+import { buildLedger, describeBalance } from './settlement';
+import { budgetStatus, indexSpend, plannedSpend } from './budgets';
+import { formatCurrency } from './currency';
+import { asFields, asList } from './fields';
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  categoryWarning: true,
+  categoryOver: true,
+  totalOver: true,
+  largeExpense: null,
+  balanceAbove: null,
+  notifications: false,
+};
+
+export const CATEGORY_WARNING_RATIO = 0.8;
+
+export type AlertKind = 'category-warning' | 'category-over' | 'total-over' | 'large-expense' | 'balance';
+
+export interface BudgetAlert {
+  id: string; // Stable while the condition holds, so it is only raised once
+  kind: AlertKind;
+  title: string;
+  message: string;
+}
+
+// Device-local bookkeeping; ids drop out once their condition clears so it can fire again later
+export interface AlertLog {
+  notified: string[];
+  dismissed: string[];
+}
+
+export const normalizeAlertLog = (raw: unknown): AlertLog => {
+  const log = asFields(raw);
+  const ids = (value: unknown) => asList(value).filter((id): id is string => typeof id === 'string');
+  return { notified: ids(log.notified), dismissed: ids(log.dismissed) };
+};
+
+export const alertPreferences = (profile: PartnerProfile | undefined): AlertPreferences => ({ ...DEFAULT_ALERT_PREFERENCES, ...(profile?.alerts || {}) });
+
+interface AlertInput {
+  transactions: Transaction[];
+  settlements: Settlement[];
+  categories: CategoryDefinition[];
+  budgets: Budgets;
+  rules: SettlementRules;
+  partnerNames: PartnerNames;
+  timeZone: string;
+  currency: string; // Household currency every amount is kept in
+}
+
+/** Every alert whose condition holds right now for this month, filtered by the partner's preferences. */
+export const evaluateAlerts = (input: AlertInput, prefs: AlertPreferences, now: Date = new Date()): BudgetAlert[] => {
+  const { transactions, settlements, categories, budgets, rules, partnerNames, timeZone, currency } = input;
+  const money = (amount: number, digits?: number) => formatCurrency(amount, currency, digits);
+  const month = currentPeriod('month', timeZone, now).start.slice(0, 7);
+  const alerts: BudgetAlert[] = [];
+
+  if (prefs.categoryWarning || prefs.categoryOver) {
+    const spend = indexSpend(transactions, timeZone);
+    for (const cat of categories) {
+      if (cat.archived) continue;
+      const status = budgetStatus(budgets[cat.name], spend[cat.name], [month]);
+      if (!status || status.spent <= 0) continue;
+      const ratio = status.available > 0 ? status.spent / status.available : Infinity;
+      if (ratio >= 1 && prefs.categoryOver) {
+        alerts.push({ id: `category-over:${cat.name}:${month}`, kind: 'category-over', title: `${cat.icon} ${cat.name} is over budget`, message: `${money(status.spent, 0)} spent of ${money(status.available, 0)}.` });
+      } else if (ratio >= CATEGORY_WARNING_RATIO && ratio < 1 && prefs.categoryWarning) {
+        alerts.push({ id: `category-warning:${cat.name}:${month}`, kind: 'category-warning', title: `${cat.icon} ${cat.name} is at ${(ratio * 100).toFixed(0)}%`, message: `${money(status.available - status.spent, 0)} left of ${money(status.available, 0)}.` });
+      }
+    }
+  }
+
+  const thisMonth = transactions.filter(t => !t.deleted && !isNaN(new Date(t.date).getTime()) && dayKeyIn(t.date, timeZone).startsWith(month));
+
+  if (prefs.totalOver) {
+    const planned = plannedSpend(budgets, categories.filter(c => !c.archived), [month]);
+    const spent = thisMonth.reduce((acc, t) => acc + t.totalAmount, 0);
+    if (planned > 0 && spent > planned) {
+      alerts.push({ id: `total-over:${month}`, kind: 'total-over', title: 'Monthly budget exceeded', message: `${money(spent, 0)} spent against ${money(planned, 0)} planned.` });
+    }
+  }
+
+  if (prefs.largeExpense !== null && prefs.largeExpense > 0) {
+    for (const t of thisMonth) {
+      if (t.totalAmount < prefs.largeExpense) continue;
+      alerts.push({ id: `large-expense:${t.id}`, kind: 'large-expense', title: `Large expense: ${money(t.totalAmount)}`, message: `${t.description} by ${partnerNames[t.userId]}.` });
+    }
+  }
+
+  if (prefs.balanceAbove !== null && prefs.balanceAbove > 0) {
+    const outstanding = buildLedger(transactions, settlements, rules, timeZone)[0]?.outstanding || 0;
+    if (Math.abs(outstanding) > prefs.balanceAbove) {
+      alerts.push({ id: `balance:${outstanding > 0 ? 'p1' : 'p2'}`, kind: 'balance', title: 'Time to settle up', message: `${describeBalance(outstanding, partnerNames, currency)}.` });
+    }
+  }
+
+  return alerts;
+};
+
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Shows a system notification, through the service worker when one is installed so it works from the home-screen app. */
+export const showSystemNotification = async (alert: BudgetAlert): Promise<void> => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body: alert.message, tag: alert.id, icon: 'https://cdn-icons-png.flaticon.com/512/2489/2489756.png' };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) await registration.showNotification(alert.title, options);
+    else new Notification(alert.title, options);
+  } catch (err) {
+    console.error("Could not show notification", err);
+  }
+};
@@ -0,0 +1,79 @@
+import { Transaction, CategoryDefinition, SettlementRules, UserRole, Budgets } from '../types';
+import { Period, dayKeyIn, inPeriod, monthsInPeriod } from './period';
+import { computeSettlement } from './settlement';
+import { plannedSpend } from './budgets';
+
+const FALLBACK_COLOR = '#94a3b8';
+
+export interface CategorySlice {
+  name: string;
+  value: number;
+  color: string;
+  icon: string;
+}
+
+export interface MonthRow {
+  key: string; // YYYY-MM
+  label: string;
+  spent: number;
+  budget: number;
+  byCategory: Record<string, number>;
+}
+
+export interface PartnerRow {
+  role: UserRole;
+  paid: number;
+  owed: number; // The partner's share of what was spent
+}
+
+/** Everything the Analytics view charts, for one period. Budgets are spread evenly per month. */
+export interface PeriodAnalytics {
+  months: MonthRow[];
+  categories: CategorySlice[]; // Largest first, only categories with spend
+  partners: PartnerRow[];
+  total: number;
+}
+
+const monthLabel = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }) + (month === 1 ? ` '${String(year).slice(2)}` : '');
+};
+
+export const analyzePeriod = (
+  transactions: Transaction[],
+  categories: CategoryDefinition[],
+  budgets: Budgets,
+  rules: SettlementRules,
+  period: Period,
+  timeZone: string
+): PeriodAnalytics => {
+  const inRange = transactions.filter(t => !t.deleted && inPeriod(t.date, period, timeZone));
+  const budgeted = categories.filter(c => !c.archived);
+  const months: MonthRow[] = monthsInPeriod(period).map(key => ({ key, label: monthLabel(key), spent: 0, budget: plannedSpend(budgets, budgeted, [key]), byCategory: {} }));
+  const monthIndex = new Map(months.map((m, i) => [m.key, i]));
+  const totals: Record<string, number> = {};
+
+  for (const t of inRange) {
+    const month = months[monthIndex.get(dayKeyIn(t.date, timeZone).slice(0, 7)) ?? -1];
+    for (const s of t.splits) {
+      totals[s.categoryName] = (totals[s.categoryName] || 0) + s.amount;
+      if (!month) continue;
+      month.spent += s.amount;
+      month.byCategory[s.categoryName] = (month.byCategory[s.categoryName] || 0) + s.amount;
+    }
+  }
+
+  const byName = new Map(categories.map(c => [c.name, c]));
+  const slices = Object.entries(totals)
+    .filter(([, value]) => value > 0)
+    .map(([name, value]) => ({ name, value, color: byName.get(name)?.color || FALLBACK_COLOR, icon: byName.get(name)?.icon || '💰' }))
+    .sort((a, b) => b.value - a.value);
+
+  const summary = computeSettlement(inRange, rules);
+  const partners: PartnerRow[] = [
+    { role: UserRole.PARTNER_1, paid: summary.partner1Paid, owed: summary.partner1Share },
+    { role: UserRole.PARTNER_2, paid: summary.partner2Paid, owed: summary.partner2Share },
+  ];
+
+  return { months, categories: slices, partners, total: slices.reduce((acc, s) => acc + s.value, 0) };
+};
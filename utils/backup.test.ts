@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PartnerProfiles, Transaction, UserRole } from '../types';
+import { SyncPayload, mergeRecords, performSync, tombstone } from './sync';
+import { SyncBackend, createMemoryBackend } from './syncBackend';
+import { BackupData, applyRestore, parseBackup } from './backup';
+import { DEFAULT_SETTLEMENT_RULES } from './settlement';
+import { DEFAULT_CATEGORIZATION } from './categorize';
+
+const PROFILES: PartnerProfiles = {
+  [UserRole.PARTNER_1]: { name: 'Tracy', color: '#6366f1', avatar: '🦊' },
+  [UserRole.PARTNER_2]: { name: 'Trish', color: '#f43f5e', avatar: '🐼' },
+  updatedAt: '',
+};
+
+const phone = (transactions: Transaction[] = []): SyncPayload => ({
+  transactions, settlements: [], recurring: [], categories: [], goals: [], goalContributions: [], budgets: {},
+  settlementRules: DEFAULT_SETTLEMENT_RULES,
+  partnerProfiles: PROFILES,
+  household: { timeZone: 'UTC', baseCurrency: 'USD', exchangeRates: [], updatedAt: '2026-01-01T00:00:00.000Z' },
+  categorization: DEFAULT_CATEGORIZATION,
+});
+
+const expense = (id: string, description: string): Transaction => ({
+  id, updatedAt: '2026-01-01T10:00:00.000Z', description, date: '2026-01-01T00:00:00.000Z', userId: UserRole.PARTNER_1,
+  totalAmount: 12, splits: [{ categoryName: 'Food', amount: 12 }],
+});
+
+/** One sync, merged into the phone's data the way App does it, plus the cursor for the next one. */
+const sync = async (backend: SyncBackend, local: SyncPayload, since?: string): Promise<[SyncPayload, string]> => {
+  const { syncedAt, ...d } = await performSync(backend, local, since);
+  return [{
+    ...d,
+    transactions: mergeRecords(local.transactions, d.transactions),
+    settlements: mergeRecords(local.settlements, d.settlements),
+    recurring: mergeRecords(local.recurring, d.recurring),
+    categories: mergeRecords(local.categories, d.categories),
+    goals: mergeRecords(local.goals, d.goals),
+    goalContributions: mergeRecords(local.goalContributions, d.goalContributions),
+  }, syncedAt];
+};
+
+const live = (p: SyncPayload) => p.transactions.filter(t => !t.deleted).map(t => t.description).sort();
+
+afterEach(() => vi.useRealTimers());
+
+describe('applyRestore', () => {
+  it('keeps a replace restore through the next sync, even for records edited or deleted since the backup', async () => {
+    // Only Date is faked, so each step gets a later timestamp than the one before
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-02-01T09:00:00.000Z'));
+    const backend = createMemoryBackend();
+    let [a, cursor] = await sync(backend, phone([expense('a1', 'Groceries'), expense('b1', 'Fuel')]));
+    const backup: BackupData = structuredClone(a);
+
+    vi.setSystemTime(new Date('2026-02-02T09:00:00.000Z'));
+    let [b] = await sync(backend, phone());
+    b = {
+      ...b,
+      transactions: b.transactions.map(t => t.id === 'a1' ? { ...t, description: 'Groceries and wine', updatedAt: new Date().toISOString() } : tombstone(t)),
+      household: { ...b.household, baseCurrency: 'EUR', updatedAt: new Date().toISOString() },
+    };
+    [b] = await sync(backend, b);
+
+    vi.setSystemTime(new Date('2026-02-03T09:00:00.000Z'));
+    [a, cursor] = await sync(backend, a, cursor);
+    expect(live(a)).toEqual(['Groceries and wine']);
+
+    vi.setSystemTime(new Date('2026-02-04T09:00:00.000Z'));
+    [a] = await sync(backend, applyRestore(a, backup, 'replace'), cursor);
+    expect(live(a)).toEqual(['Fuel', 'Groceries']);
+    expect(a.household.baseCurrency).toBe('USD');
+
+    [b] = await sync(backend, b);
+    expect(live(b)).toEqual(['Fuel', 'Groceries']);
+    expect(b.household.baseCurrency).toBe('USD');
+  });
+
+  it('tombstones records that are not in the backup', () => {
+    const restored = applyRestore(phone([expense('a1', 'Groceries'), expense('b1', 'Fuel')]), phone([expense('a1', 'Groceries')]), 'replace');
+    expect(live(restored)).toEqual(['Groceries']);
+    expect(restored.transactions.find(t => t.id === 'b1')?.deleted).toBe(true);
+  });
+});
+
+describe('parseBackup', () => {
+  const file = (data: object) => JSON.stringify({ app: 'duospend', version: 3, exportedAt: '', data });
+
+  it('keeps the current value of settings fields that have the wrong type', () => {
+    const fallback = phone();
+    const data = parseBackup(file({
+      settlementRules: { defaultPartner1Share: 'half', useIncomeRatio: 'yes', categoryRules: { Food: { kind: 'shared', partner1Share: '0.7' }, Fun: 'personal' } },
+      partnerProfiles: { [UserRole.PARTNER_1]: { name: null, color: 7, avatar: '🐻', monthlyIncome: 'lots' }, updatedAt: '2026-01-02T00:00:00.000Z' },
+      household: { timeZone: 'Mars/Olympus', baseCurrency: 'eur!', exchangeRates: [{ currency: 'GBP', rate: '1.25', date: '2026-01-01' }, null] },
+      categorization: { rules: [{ pattern: 'SHELL', match: 'regex', categoryName: 'Gas' }, { pattern: 3 }], autoApplyThreshold: null },
+    }), fallback);
+    expect(data.settlementRules).toEqual({ ...DEFAULT_SETTLEMENT_RULES, categoryRules: { Food: { kind: 'shared', partner1Share: 0.7 } } });
+    expect(data.partnerProfiles[UserRole.PARTNER_1]).toEqual({ ...PROFILES[UserRole.PARTNER_1], avatar: '🐻' });
+    expect(data.partnerProfiles[UserRole.PARTNER_2]).toEqual(PROFILES[UserRole.PARTNER_2]);
+    expect(data.household).toEqual({ ...fallback.household, exchangeRates: [{ currency: 'GBP', rate: 1.25, date: '2026-01-01' }] });
+    expect(data.categorization).toEqual({ ...DEFAULT_CATEGORIZATION, rules: [{ id: '', pattern: 'SHELL', match: 'contains', categoryName: 'Gas' }] });
+  });
+});
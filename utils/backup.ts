@@ -0,0 +1,149 @@
+import { AppState, PartnerNames, SyncRecord, Transaction } from '../types';
+import { normalizeTransaction, normalizeSettlement, normalizeRecurring, normalizeCategory, normalizeGoal, normalizeGoalContribution, normalizeSettlementRules, normalizePartnerProfiles, normalizeHousehold, normalizeCategorization, mergeRecords, mergeBudgets, pickWinner } from './sync';
+import { asFields, asList, readChoice, readText } from './fields';
+import { normalizeBudgets } from './budgets';
+import { migrateLegacyGoals } from './goals';
+import { Snapshot, SnapshotReason, rollbackTo } from './snapshots';
+
+// Bump when the shape of BackupData changes; older files are upgraded in parseBackup
+export const BACKUP_VERSION = 3;
+
+export type BackupData = Omit<AppState, 'syncUrl' | 'lastSync' | 'syncCursor'>;
+
+export interface BackupFile {
+  app: 'duospend';
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionDiff {
+  label: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number; // Live records the restore deletes
+}
+
+type RecordCollection = 'transactions' | 'settlements' | 'recurring' | 'categories' | 'goals' | 'goalContributions';
+
+const RECORD_COLLECTIONS: { key: RecordCollection; label: string }[] = [
+  { key: 'transactions', label: 'Transactions' },
+  { key: 'settlements', label: 'Settlements' },
+  { key: 'recurring', label: 'Recurring bills' },
+  { key: 'categories', label: 'Categories' },
+  { key: 'goals', label: 'Goals' },
+  { key: 'goalContributions', label: 'Goal contributions' },
+];
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  app: 'duospend',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+});
+
+// Every field is read as unknown; `version` is the format the data was written in
+const readData = (raw: unknown, fallback: BackupData, version: number): BackupData => {
+  const d = asFields(raw);
+  // v1 goals carried a typed-in `current` balance instead of contribution records
+  const legacy = version < 2 ? migrateLegacyGoals(asList(d.goals)) : null;
+  return {
+    transactions: asList(d.transactions).map(normalizeTransaction),
+    settlements: asList(d.settlements).map(normalizeSettlement),
+    recurring: asList(d.recurring).map(normalizeRecurring),
+    categories: d.categories ? asList(d.categories).map(normalizeCategory) : fallback.categories,
+    goals: legacy ? legacy.goals : d.goals ? asList(d.goals).map(normalizeGoal) : fallback.goals,
+    goalContributions: legacy ? legacy.contributions : asList(d.goalContributions).map(normalizeGoalContribution),
+    // v1/v2 budgets were flat monthly numbers; normalizeBudgets upgrades them
+    budgets: d.budgets && typeof d.budgets === 'object' ? normalizeBudgets(d.budgets) : fallback.budgets,
+    // Each field is checked, so a hand-edited file can't put text into a number or drop a partner
+    settlementRules: normalizeSettlementRules(d.settlementRules, fallback.settlementRules),
+    partnerProfiles: normalizePartnerProfiles(d.partnerProfiles, fallback.partnerProfiles),
+    household: normalizeHousehold(d.household, fallback.household),
+    categorization: normalizeCategorization(d.categorization, fallback.categorization),
+  };
+};
+
+/** Validates an uploaded file and returns its data in the current shape; throws with a readable message. */
+export const parseBackup = (text: string, fallback: BackupData): BackupData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("This file is not valid JSON.");
+  }
+  const file = asFields(parsed);
+  if (file.app !== 'duospend' || typeof file.version !== 'number' || !file.data || typeof file.data !== 'object') {
+    throw new Error("This is not a DuoSpend backup file.");
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of DuoSpend (format v${file.version}). Update the app first.`);
+  }
+  return readData(file.data, fallback, file.version);
+};
+
+/** Snapshots as saved on this device; each one's data is read like a current backup file. */
+export const normalizeSnapshots = (raw: unknown, fallback: BackupData): Snapshot[] =>
+  asList(raw).map(asFields).filter(s => typeof s.takenAt === 'string' && s.data && typeof s.data === 'object').map(s => ({
+    id: readText(s.id),
+    takenAt: readText(s.takenAt),
+    reason: readChoice<SnapshotReason>(s.reason, ['sync', 'wipe', 'restore'], 'sync'),
+    data: readData(s.data, fallback, BACKUP_VERSION),
+  }));
+
+/**
+ * Replace takes the backup and deletes the rest, re-stamping whatever it changes like a snapshot rollback
+ * so the next sync pushes it out; merge keeps everything local and applies the backup by `id` with the sync conflict rule.
+ */
+export const applyRestore = (current: BackupData, incoming: BackupData, mode: RestoreMode): BackupData => {
+  if (mode === 'replace') return rollbackTo(current, incoming);
+  return {
+    transactions: mergeRecords(current.transactions, incoming.transactions),
+    settlements: mergeRecords(current.settlements, incoming.settlements),
+    recurring: mergeRecords(current.recurring, incoming.recurring),
+    categories: mergeRecords(current.categories, incoming.categories),
+    goals: mergeRecords(current.goals, incoming.goals),
+    goalContributions: mergeRecords(current.goalContributions, incoming.goalContributions),
+    budgets: mergeBudgets(current.budgets, incoming.budgets),
+    settlementRules: pickWinner(current.settlementRules, incoming.settlementRules) || current.settlementRules,
+    partnerProfiles: pickWinner(current.partnerProfiles, incoming.partnerProfiles) || current.partnerProfiles,
+    household: pickWinner(current.household, incoming.household) || current.household,
+    categorization: pickWinner(current.categorization, incoming.categorization) || current.categorization,
+  };
+};
+
+export const diffRestore = (current: BackupData, incoming: BackupData, mode: RestoreMode): CollectionDiff[] => {
+  const result = applyRestore(current, incoming, mode);
+  return RECORD_COLLECTIONS.map(({ key, label }) => {
+    // Tombstones are left out, so a record the restore deletes counts as removed
+    const live = (records: SyncRecord[]) => new Map<string, string>(records.filter(r => !r.deleted).map(r => [r.id, JSON.stringify(r)]));
+    const before = live(current[key]);
+    const after = live(result[key]);
+    const diff: CollectionDiff = { label, added: 0, updated: 0, unchanged: 0, removed: 0 };
+    after.forEach((value, id) => {
+      if (!before.has(id)) diff.added++;
+      else if (before.get(id) !== value) diff.updated++;
+      else diff.unchanged++;
+    });
+    before.forEach((_, id) => { if (!after.has(id)) diff.removed++; });
+    return diff;
+  });
+};
+
+const csvField = (value: string | number) => {
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Flat export: one row per split so spreadsheets can pivot by category. */
+export const transactionsToCsv = (transactions: Transaction[], partnerNames: PartnerNames): string => {
+  const header = ['Transaction ID', 'Date', 'Description', 'Paid By', 'Category', 'Split Amount', 'Transaction Total', 'Original Currency', 'Original Amount'];
+  const rows = [...transactions]
+    .filter(t => !t.deleted)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(t => t.splits.map(s => [t.id, t.date.split('T')[0], t.description, partnerNames[t.userId] || t.userId, s.categoryName, s.amount.toFixed(2), t.totalAmount.toFixed(2), t.currency || '', t.currency && t.originalAmount !== undefined ? t.originalAmount.toFixed(2) : '']));
+  return [header, ...rows].map(r => r.map(csvField).join(',')).join('\r\n');
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { BudgetVersion, CategoryBudget, Transaction, UserRole } from '../types';
+import { BUDGET_EPOCH, budgetStatus, indexSpend } from './budgets';
+
+const budget = (versions: BudgetVersion[]): CategoryBudget => ({ versions, updatedAt: '' });
+
+const spend = (amounts: Record<string, number>) => indexSpend(Object.entries(amounts).map(([month, amount]): Transaction => ({
+  id: month, updatedAt: '', description: 'Insurance', date: `${month}-15T12:00:00.000Z`, userId: UserRole.PARTNER_1,
+  totalAmount: amount, splits: [{ categoryName: 'Insurance', amount }],
+})), 'UTC').Insurance;
+
+describe('budgetStatus after a mid-year periodicity change', () => {
+  const switched = budget([
+    { from: BUDGET_EPOCH, limit: 100, periodicity: 'monthly', rollover: false },
+    { from: '2026-08', limit: 1200, periodicity: 'annual', rollover: false },
+  ]);
+  const byMonth = spend({ '2026-01': 40, '2026-07': 90, '2026-08': 300, '2026-11': 200 });
+
+  it('measures the new annual limit against spend from the switch onwards', () => {
+    expect(budgetStatus(switched, byMonth, ['2026-08'])).toMatchObject({ periodicity: 'annual', limit: 1200, spent: 500 });
+  });
+
+  it('keeps earlier months on the monthly limit they had', () => {
+    expect(budgetStatus(switched, byMonth, ['2026-07'])).toMatchObject({ periodicity: 'monthly', limit: 100, spent: 90 });
+  });
+
+  it('ends an annual period where a later version takes over', () => {
+    const back = budget([
+      { from: BUDGET_EPOCH, limit: 1200, periodicity: 'annual', rollover: false },
+      { from: '2026-08', limit: 100, periodicity: 'monthly', rollover: false },
+    ]);
+    expect(budgetStatus(back, byMonth, ['2026-03'])).toMatchObject({ periodicity: 'annual', limit: 1200, spent: 130 });
+    expect(budgetStatus(back, byMonth, ['2026-08'])).toMatchObject({ periodicity: 'monthly', limit: 100, spent: 300 });
+  });
+
+  it('carries monthly leftovers into the annual period without counting them twice', () => {
+    const rolling = budget([
+      { from: '2026-06', limit: 100, periodicity: 'monthly', rollover: true },
+      { from: '2026-08', limit: 1200, periodicity: 'annual', rollover: true },
+    ]);
+    // June leaves 100, July leaves 10
+    expect(budgetStatus(rolling, byMonth, ['2026-08'])).toMatchObject({ limit: 1200, carriedIn: 110, available: 1310, spent: 500 });
+  });
+});
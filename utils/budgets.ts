@@ -0,0 +1,248 @@
+import { Budgets, BudgetVersion, BudgetPeriodicity, CategoryBudget, CategoryDefinition, Transaction, UserRole } from '../types';
+import { dayKeyIn } from './period';
+import { asFields, asList, optionalNumber, readChoice, readNumber, readText } from './fields';
+
+// Versions migrated from the old flat monthly limits apply to all of history
+export const BUDGET_EPOCH = '0000-00';
+
+export const PERIOD_MONTHS: Record<BudgetPeriodicity, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const addMonths = (month: string, n: number): string => {
+  const [year, m] = month.split('-').map(Number);
+  const index = year * 12 + (m - 1) + n;
+  return `${Math.floor(index / 12)}-${pad((index % 12) + 1)}`;
+};
+
+const monthsBetween = (from: string, to: string): number => {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty * 12 + tm) - (fy * 12 + fm);
+};
+
+/** First month of the budget period (month, quarter or year) that contains `month`. */
+const bucketStart = (month: string, periodicity: BudgetPeriodicity): string => {
+  const [year, m] = month.split('-').map(Number);
+  if (periodicity === 'annual') return `${year}-01`;
+  if (periodicity === 'quarterly') return `${year}-${pad(Math.floor((m - 1) / 3) * 3 + 1)}`;
+  return month;
+};
+
+interface Bucket {
+  start: string;
+  months: number;
+  version: BudgetVersion;
+}
+
+/**
+ * The budget period containing `month` under the version in effect that month. A period is cut
+ * short where its version starts or ends, so a budget switched to annual in August covers
+ * August to December and earlier months stay with the version they had.
+ */
+const bucketAt = (budget: CategoryBudget, month: string): Bucket | null => {
+  const version = versionAt(budget, month);
+  if (!version) return null;
+  const periodStart = bucketStart(month, version.periodicity);
+  const start = version.from > periodStart ? version.from : periodStart;
+  const periodEnd = addMonths(periodStart, PERIOD_MONTHS[version.periodicity]);
+  const next = budget.versions.find(v => v.from > version.from);
+  const end = next && next.from < periodEnd ? next.from : periodEnd;
+  return { start, months: monthsBetween(start, end), version };
+};
+
+const normalizeAllowances = (raw: unknown): Partial<Record<UserRole, number>> | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const a = asFields(raw);
+  const allowances: Partial<Record<UserRole, number>> = {};
+  for (const role of [UserRole.PARTNER_1, UserRole.PARTNER_2]) {
+    const amount = optionalNumber(a[role]);
+    if (amount !== undefined) allowances[role] = amount;
+  }
+  return allowances;
+};
+
+const normalizeVersion = (raw: unknown): BudgetVersion => {
+  const v = asFields(raw);
+  const allowances = normalizeAllowances(v.allowances);
+  return {
+    from: readText(v.from) || BUDGET_EPOCH,
+    limit: v.limit === null || v.limit === undefined || v.limit === '' ? null : readNumber(v.limit),
+    periodicity: readChoice<BudgetPeriodicity>(v.periodicity, ['monthly', 'quarterly', 'annual'], 'monthly'),
+    rollover: v.rollover === true,
+    ...(allowances ? { allowances } : {}),
+  };
+};
+
+/** Accepts both the current shape and the old `{ [category]: monthlyLimit }` numbers. */
+export const normalizeBudgets = (raw: unknown): Budgets => {
+  const result: Budgets = {};
+  for (const [name, value] of Object.entries(asFields(raw))) {
+    if (typeof value === 'number' || typeof value === 'string') {
+      result[name] = { versions: [{ from: BUDGET_EPOCH, limit: readNumber(value), periodicity: 'monthly', rollover: false }], updatedAt: '' };
+    } else if (Array.isArray(asFields(value).versions)) {
+      const budget = asFields(value);
+      result[name] = { versions: asList(budget.versions).map(normalizeVersion).sort((a, b) => a.from.localeCompare(b.from)), updatedAt: readText(budget.updatedAt) };
+    }
+  }
+  return result;
+};
+
+export const versionAt = (budget: CategoryBudget | undefined, month: string): BudgetVersion | undefined => {
+  if (!budget) return undefined;
+  let found: BudgetVersion | undefined;
+  for (const v of budget.versions) {
+    if (v.from <= month) found = v;
+  }
+  return found;
+};
+
+/** The limit for one period, or null for "no budget". Allowances, when set, add up to the limit. */
+export const versionLimit = (v: BudgetVersion | undefined): number | null => {
+  if (!v) return null;
+  const allowances = Object.values(v.allowances || {}).filter((a): a is number => typeof a === 'number');
+  if (allowances.length > 0) return allowances.reduce((acc, a) => acc + a, 0);
+  return v.limit;
+};
+
+/**
+ * Applies an edit from `month` onwards. Earlier months keep the version they had, so changing
+ * this month's limit doesn't rewrite how past months looked.
+ */
+export const setBudgetFrom = (budget: CategoryBudget | undefined, month: string, patch: Partial<BudgetVersion>): CategoryBudget => {
+  const versions = budget ? [...budget.versions] : [];
+  const base = versionAt(budget, month) || { from: month, limit: null, periodicity: 'monthly' as BudgetPeriodicity, rollover: false };
+  const next: BudgetVersion = { ...base, ...patch, from: month };
+  const index = versions.findIndex(v => v.from === month);
+  if (index >= 0) versions[index] = next;
+  else versions.push(next);
+  return { versions: versions.sort((a, b) => a.from.localeCompare(b.from)), updatedAt: new Date().toISOString() };
+};
+
+/** A category's limit spread evenly per month, e.g. a $1,200 annual budget plans $100 a month. */
+export const monthlyEquivalent = (v: BudgetVersion | undefined): number | null => {
+  const limit = versionLimit(v);
+  return v && limit !== null ? limit / PERIOD_MONTHS[v.periodicity] : null;
+};
+
+/** Sum of planned monthly spend over `months` for the given categories. */
+export const plannedSpend = (budgets: Budgets, categories: CategoryDefinition[], months: string[]): number =>
+  months.reduce((acc, month) => acc + categories.reduce((sum, c) => sum + (monthlyEquivalent(versionAt(budgets[c.name], month)) || 0), 0), 0);
+
+/** Current monthly-equivalent limits, for places (like the AI coach) that only understand flat numbers. */
+export const monthlyLimits = (budgets: Budgets, month: string): Record<string, number> => {
+  const result: Record<string, number> = {};
+  for (const [name, budget] of Object.entries(budgets)) {
+    const value = monthlyEquivalent(versionAt(budget, month));
+    if (value !== null) result[name] = value;
+  }
+  return result;
+};
+
+interface MonthSpend {
+  total: number;
+  byPartner: Record<UserRole, number>;
+}
+
+// category -> YYYY-MM -> spend
+export type SpendIndex = Record<string, Record<string, MonthSpend>>;
+
+export const indexSpend = (transactions: Transaction[], timeZone: string): SpendIndex => {
+  const index: SpendIndex = {};
+  for (const t of transactions) {
+    if (t.deleted || isNaN(new Date(t.date).getTime())) continue;
+    const month = dayKeyIn(t.date, timeZone).slice(0, 7);
+    for (const s of t.splits) {
+      const byMonth = index[s.categoryName] || (index[s.categoryName] = {});
+      const entry = byMonth[month] || (byMonth[month] = { total: 0, byPartner: { [UserRole.PARTNER_1]: 0, [UserRole.PARTNER_2]: 0 } as Record<UserRole, number> });
+      entry.total += s.amount;
+      entry.byPartner[t.userId] = (entry.byPartner[t.userId] || 0) + s.amount;
+    }
+  }
+  return index;
+};
+
+export interface AllowanceStatus {
+  role: UserRole;
+  allowance: number;
+  spent: number;
+}
+
+export interface BudgetStatus {
+  periodicity: BudgetPeriodicity;
+  limit: number; // Sum of the limits of every budget period shown
+  carriedIn: number; // Rolled over into the first period: positive when unspent, negative when overspent
+  available: number; // limit + carriedIn
+  spent: number; // Spend across the whole budget periods shown, e.g. the full year for an annual budget
+  allowances: AllowanceStatus[];
+}
+
+const spendBetween = (byMonth: Record<string, MonthSpend> | undefined, start: string, months: number) => {
+  const result = { total: 0, byPartner: { [UserRole.PARTNER_1]: 0, [UserRole.PARTNER_2]: 0 } as Record<UserRole, number> };
+  for (let i = 0; i < months; i++) {
+    const entry = byMonth?.[addMonths(start, i)];
+    if (!entry) continue;
+    result.total += entry.total;
+    result.byPartner[UserRole.PARTNER_1] += entry.byPartner[UserRole.PARTNER_1] || 0;
+    result.byPartner[UserRole.PARTNER_2] += entry.byPartner[UserRole.PARTNER_2] || 0;
+  }
+  return result;
+};
+
+/** Leftover carried into the budget period starting at `until`, walking every earlier period in order. */
+const carryInto = (budget: CategoryBudget, byMonth: Record<string, MonthSpend> | undefined, until: string): number => {
+  const spendMonths = Object.keys(byMonth || {}).sort();
+  const firstVersion = budget.versions[0]?.from;
+  if (!firstVersion) return 0;
+  let month = firstVersion === BUDGET_EPOCH ? spendMonths[0] : firstVersion;
+  if (!month || month >= until) return 0;
+  let carry = 0;
+  // Bounded so a corrupt "from" can't stall the UI
+  for (let guard = 0; month < until && guard < 1200; guard++) {
+    const bucket = bucketAt(budget, month);
+    const limit = versionLimit(bucket?.version);
+    if (!bucket || limit === null) {
+      carry = 0;
+      month = addMonths(month, 1);
+      continue;
+    }
+    const spent = spendBetween(byMonth, bucket.start, bucket.months).total;
+    carry = bucket.version.rollover ? limit + carry - spent : 0;
+    month = addMonths(bucket.start, bucket.months);
+  }
+  return carry;
+};
+
+/**
+ * Budget position of one category over the given months. Each month is mapped to the budget period
+ * its version uses, so an annual insurance budget viewed in a single month shows the whole year.
+ * Returns null when none of the months has a budget.
+ */
+export const budgetStatus = (budget: CategoryBudget | undefined, byMonth: Record<string, MonthSpend> | undefined, months: string[]): BudgetStatus | null => {
+  if (!budget) return null;
+  const buckets: Bucket[] = [];
+  for (const month of months) {
+    const bucket = bucketAt(budget, month);
+    if (!bucket || versionLimit(bucket.version) === null) continue;
+    if (!buckets.some(b => b.start === bucket.start)) buckets.push(bucket);
+  }
+  if (buckets.length === 0) return null;
+
+  const carriedIn = buckets[0].version.rollover ? carryInto(budget, byMonth, buckets[0].start) : 0;
+  let limit = 0;
+  let spent = 0;
+  const allowances = new Map<UserRole, AllowanceStatus>();
+  for (const b of buckets) {
+    const s = spendBetween(byMonth, b.start, b.months);
+    limit += versionLimit(b.version) || 0;
+    spent += s.total;
+    for (const role of [UserRole.PARTNER_1, UserRole.PARTNER_2]) {
+      const allowance = b.version.allowances?.[role];
+      if (typeof allowance !== 'number') continue;
+      const current = allowances.get(role) || { role, allowance: 0, spent: 0 };
+      allowances.set(role, { role, allowance: current.allowance + allowance, spent: current.spent + s.byPartner[role] });
+    }
+  }
+
+  return { periodicity: buckets[0].version.periodicity, limit, carriedIn, available: limit + carriedIn, spent, allowances: Array.from(allowances.values()) };
+};
@@ -0,0 +1,84 @@
+import { Transaction, TransactionSplit, CategoryDefinition } from '../types';
+
+/** Maps every former name (alias) to the current name of the category that absorbed it. */
+export const aliasMap = (categories: CategoryDefinition[]): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const c of categories) {
+    if (c.deleted) continue;
+    for (const alias of c.aliases || []) {
+      if (alias !== c.name) map[alias] = c.name;
+    }
+  }
+  return map;
+};
+
+const combineSplits = (splits: TransactionSplit[]): TransactionSplit[] => {
+  const byName = new Map<string, TransactionSplit>();
+  for (const s of splits) {
+    const existing = byName.get(s.categoryName);
+    if (existing) existing.amount += s.amount;
+    else byName.set(s.categoryName, { ...s });
+  }
+  return Array.from(byName.values());
+};
+
+/**
+ * Rewrites `categoryName` on every split that still uses an old name. Touched transactions get a
+ * fresh `updatedAt` so the migration syncs to the other phone like any other edit.
+ */
+export const remapTransactions = (transactions: Transaction[], renames: Record<string, string>): Transaction[] => {
+  if (Object.keys(renames).length === 0) return transactions;
+  const updatedAt = new Date().toISOString();
+  let changed = false;
+  const next = transactions.map(t => {
+    if (!t.splits.some(s => renames[s.categoryName])) return t;
+    changed = true;
+    const splits = combineSplits(t.splits.map(s => renames[s.categoryName] ? { ...s, categoryName: renames[s.categoryName] } : s));
+    return { ...t, splits, updatedAt };
+  });
+  return changed ? next : transactions;
+};
+
+/** Moves keyed settings (budgets, split rules) to the new name; an existing value on the target wins. */
+export const remapKeys = <V,>(record: Record<string, V>, renames: Record<string, string>): Record<string, V> => {
+  if (!Object.keys(record).some(k => renames[k])) return record;
+  const next: Record<string, V> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!renames[key]) next[key] = value;
+  }
+  for (const [key, value] of Object.entries(record)) {
+    const target = renames[key];
+    if (target && next[target] === undefined) next[target] = value;
+  }
+  return next;
+};
+
+export const renameCategory = (categories: CategoryDefinition[], id: string, patch: Partial<CategoryDefinition>): { categories: CategoryDefinition[]; renames: Record<string, string> } => {
+  const updatedAt = new Date().toISOString();
+  const renames: Record<string, string> = {};
+  const next = categories.map(c => {
+    if (c.id !== id) return c;
+    const name = patch.name?.trim() || c.name;
+    if (name !== c.name) renames[c.name] = name;
+    const aliases = name !== c.name ? [...(c.aliases || []), c.name].filter(a => a !== name) : c.aliases;
+    return { ...c, ...patch, name, aliases, updatedAt };
+  });
+  return { categories: next, renames };
+};
+
+/** Folds `fromId` into `toId`: the source is tombstoned and its names become aliases of the target. */
+export const mergeCategories = (categories: CategoryDefinition[], fromId: string, toId: string): { categories: CategoryDefinition[]; renames: Record<string, string> } => {
+  const from = categories.find(c => c.id === fromId);
+  const to = categories.find(c => c.id === toId);
+  if (!from || !to || fromId === toId) return { categories, renames: {} };
+  const updatedAt = new Date().toISOString();
+  const absorbed = [from.name, ...(from.aliases || [])];
+  const renames: Record<string, string> = {};
+  absorbed.forEach(name => renames[name] = to.name);
+  const next = categories.map(c => {
+    if (c.id === fromId) return { ...c, deleted: true, updatedAt };
+    if (c.id === toId) return { ...c, aliases: Array.from(new Set([...(c.aliases || []), ...absorbed])), updatedAt };
+    return c;
+  });
+  return { categories: next, renames };
+};
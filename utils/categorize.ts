@@ -0,0 +1,108 @@
+import { CategorizationSettings, CategoryDefinition, CategoryRule, Transaction } from '../types';
+
+// Everything here runs on the phone: suggestions come from the user's rules and their own history.
+
+export const DEFAULT_CATEGORIZATION: CategorizationSettings = {
+  rules: [],
+  autoApplyThreshold: 0.75,
+  updatedAt: '',
+};
+
+export interface CategorySuggestion {
+  categoryName: string;
+  confidence: number; // 0-1
+  reason: string; // Shown next to the suggestion, e.g. "4 of 5 past entries"
+}
+
+/** Category counts learned from past entries, by merchant and by single word. */
+export interface CategoryModel {
+  merchants: Map<string, Map<string, number>>;
+  words: Map<string, Map<string, number>>;
+}
+
+// Card processors and banks decorate merchant names; these prefixes and words say nothing about the category
+const NOISE = new Set(['sq', 'tst', 'pos', 'debit', 'purchase', 'card', 'visa', 'paypal', 'the', 'and', 'inc', 'llc', 'www', 'com', 'store']);
+
+const descriptionWords = (description: string): string[] =>
+  description.toLowerCase().replace(/[^a-z ]+/g, ' ').split(/\s+/).filter(w => w.length > 1 && !NOISE.has(w));
+
+/** "SQ *BLUE BOTTLE #123 OAKLAND" and "Blue Bottle" both come out as "blue bottle". */
+export const merchantKey = (description: string): string => descriptionWords(description).slice(0, 2).join(' ');
+
+const bump = (map: Map<string, Map<string, number>>, key: string, category: string) => {
+  const counts = map.get(key) || new Map<string, number>();
+  counts.set(category, (counts.get(category) || 0) + 1);
+  map.set(key, counts);
+};
+
+export const learnCategories = (transactions: Transaction[]): CategoryModel => {
+  const model: CategoryModel = { merchants: new Map(), words: new Map() };
+  transactions.forEach(t => {
+    // A split entry still says where most of the money went
+    const main = [...t.splits].sort((a, b) => b.amount - a.amount)[0];
+    if (t.deleted || !main) return;
+    const key = merchantKey(t.description);
+    if (!key) return;
+    bump(model.merchants, key, main.categoryName);
+    new Set(descriptionWords(t.description).filter(w => w.length >= 3)).forEach(w => bump(model.words, w, main.categoryName));
+  });
+  return model;
+};
+
+export const ruleMatches = (rule: CategoryRule, description: string): boolean => {
+  const text = description.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (!pattern) return false;
+  if (rule.match === 'exact') return text === pattern;
+  if (rule.match === 'startsWith') return text.startsWith(pattern);
+  return text.includes(pattern);
+};
+
+export const describeRule = (rule: CategoryRule): string =>
+  `${rule.match === 'exact' ? 'is' : rule.match === 'startsWith' ? 'starts with' : 'contains'} "${rule.pattern}"`;
+
+// The winning share of the votes, pulled toward 0 when there are few: one past entry gives 50%, four agreeing give 80%
+const vote = (counts: Map<string, number>, allowed: Set<string>): { categoryName: string; best: number; total: number } | null => {
+  let total = 0;
+  let winner: { categoryName: string; best: number } | null = null;
+  counts.forEach((count, name) => {
+    if (!allowed.has(name)) return;
+    total += count;
+    if (!winner || count > winner.best) winner = { categoryName: name, best: count };
+  });
+  return winner ? { ...(winner as { categoryName: string; best: number }), total } : null;
+};
+
+/**
+ * Best category for a description: the first matching rule (always confident), then the same
+ * merchant in past entries, then individual words. Null when nothing points anywhere.
+ */
+export const suggestCategory = (description: string, model: CategoryModel, settings: CategorizationSettings, categories: CategoryDefinition[]): CategorySuggestion | null => {
+  const allowed = new Set(categories.filter(c => !c.archived && !c.deleted).map(c => c.name));
+  const rule = settings.rules.find(r => allowed.has(r.categoryName) && ruleMatches(r, description));
+  if (rule) return { categoryName: rule.categoryName, confidence: 1, reason: `Rule: ${describeRule(rule)}` };
+
+  const key = merchantKey(description);
+  const merchant = key ? model.merchants.get(key) : undefined;
+  const fromMerchant = merchant ? vote(merchant, allowed) : null;
+  if (fromMerchant) {
+    return { categoryName: fromMerchant.categoryName, confidence: fromMerchant.best / (fromMerchant.total + 1), reason: `${fromMerchant.best} of ${fromMerchant.total} past "${key}" entries` };
+  }
+
+  const pooled = new Map<string, number>();
+  descriptionWords(description).filter(w => w.length >= 3).forEach(w => model.words.get(w)?.forEach((count, name) => pooled.set(name, (pooled.get(name) || 0) + count)));
+  const fromWords = vote(pooled, allowed);
+  // Shared words are weaker evidence than the same merchant, so they never reach full confidence
+  if (fromWords) return { categoryName: fromWords.categoryName, confidence: 0.8 * fromWords.best / (fromWords.total + 1), reason: 'Similar past entries' };
+  return null;
+};
+
+/** Rules follow category renames and merges, like budgets and split rules do. */
+export const remapRules = (settings: CategorizationSettings, renames: Record<string, string>): CategorizationSettings => {
+  if (!settings.rules.some(r => renames[r.categoryName])) return settings;
+  return {
+    ...settings,
+    rules: settings.rules.map(r => renames[r.categoryName] ? { ...r, categoryName: renames[r.categoryName] } : r),
+    updatedAt: new Date().toISOString(),
+  };
+};
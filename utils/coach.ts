@@ -0,0 +1,196 @@
+import { Budgets, CategoryDefinition, Goal, GoalContribution, PartnerNames, Settlement, SettlementRules, Transaction } from '../types';
+import { monthlyLimits } from './budgets';
+import { buildLedger, describeBalance } from './settlement';
+import { projectGoal } from './goals';
+import { merchantKey } from './categorize';
+import { dayKeyIn } from './period';
+import { asFields, readNumber, readText } from './fields';
+
+// DuoCoach is handed these figures instead of raw entries, so its tips and answers can be checked
+// against what the app itself shows. Amounts are in the household currency, rounded to cents.
+
+export interface MerchantFact {
+  merchant: string;
+  monthToDate: number;
+  lastMonthToDate: number; // Same merchant, same days of last month
+}
+
+export interface CategoryFact {
+  name: string;
+  monthToDate: number;
+  lastMonthToDate: number; // Days 1..today of last month, so early-month numbers compare fairly
+  lastMonthTotal: number;
+  changePercent: number | null; // monthToDate vs lastMonthToDate; null when last month had nothing
+  monthlyBudget: number | null; // Monthly equivalent of this month's budget
+  budgetUsedPercent: number | null;
+  topMerchants: MerchantFact[];
+}
+
+export interface GoalFact {
+  name: string;
+  target: number;
+  saved: number;
+  percent: number;
+  targetDate: string | null;
+  onTrack: boolean | null;
+  requiredMonthly: number | null;
+  projectedDate: string | null;
+}
+
+export interface CoachFacts {
+  today: string; // YYYY-MM-DD in the household timezone
+  daysInMonth: number;
+  partnerNames: PartnerNames;
+  totals: { monthToDate: number; lastMonthToDate: number; lastMonthTotal: number; monthlyBudget: number };
+  categories: CategoryFact[]; // Most spent this month first
+  balance: { amount: number; summary: string }; // Outstanding across all months, net of settle-ups
+  goals: GoalFact[];
+}
+
+export interface CoachInput {
+  transactions: Transaction[];
+  settlements: Settlement[];
+  categories: CategoryDefinition[];
+  budgets: Budgets;
+  rules: SettlementRules;
+  goals: Goal[];
+  contributions: GoalContribution[];
+  partnerNames: PartnerNames;
+  timeZone: string;
+  currency: string; // Household currency, for the balance summary
+}
+
+export interface CoachTip {
+  title: string;
+  categoryName: string | null; // null for tips about the household as a whole
+  estimatedMonthlySavings: number;
+  rationale: string;
+}
+
+export interface CoachMessage {
+  role: 'user' | 'coach';
+  text: string;
+}
+
+/** Tips and the follow-up thread; held in memory for the session only, never stored or synced. */
+export interface CoachSession {
+  tips: CoachTip[] | null;
+  messages: CoachMessage[];
+}
+
+export const EMPTY_COACH_SESSION: CoachSession = { tips: null, messages: [] };
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const pad = (n: number) => String(n).padStart(2, '0');
+const lastDay = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate(); // month is 1-based
+
+const TOP_MERCHANTS = 3;
+
+export const buildCoachFacts = (input: CoachInput, now: Date = new Date()): CoachFacts => {
+  const today = dayKeyIn(now.toISOString(), input.timeZone);
+  const [year, month, day] = today.split('-').map(Number);
+  const thisMonth = today.slice(0, 7);
+  const prevYear = month === 1 ? year - 1 : year;
+  const prevMonth = month === 1 ? 12 : month - 1;
+  const lastMonth = `${prevYear}-${pad(prevMonth)}`;
+  const lastMonthCutoff = `${lastMonth}-${pad(Math.min(day, lastDay(prevYear, prevMonth)))}`;
+
+  const limits = monthlyLimits(input.budgets, thisMonth);
+  const byCategory = new Map<string, { mtd: number; lastMtd: number; lastTotal: number; merchants: Map<string, MerchantFact> }>();
+  const entry = (name: string) => {
+    let e = byCategory.get(name);
+    if (!e) byCategory.set(name, e = { mtd: 0, lastMtd: 0, lastTotal: 0, merchants: new Map() });
+    return e;
+  };
+
+  for (const t of input.transactions) {
+    if (t.deleted) continue;
+    const tDay = dayKeyIn(t.date, input.timeZone);
+    const inThis = tDay.startsWith(thisMonth) && tDay <= today;
+    const inLast = tDay.startsWith(lastMonth);
+    if (!inThis && !inLast) continue;
+    const key = merchantKey(t.description) || t.description.toLowerCase();
+    // Every split counts toward its own category, so a mixed shop is not filed under its first line
+    for (const split of t.splits) {
+      const e = entry(split.categoryName);
+      const merchant = e.merchants.get(key) || { merchant: t.description, monthToDate: 0, lastMonthToDate: 0 };
+      if (inThis) {
+        e.mtd += split.amount;
+        merchant.monthToDate += split.amount;
+      } else {
+        e.lastTotal += split.amount;
+        if (tDay <= lastMonthCutoff) {
+          e.lastMtd += split.amount;
+          merchant.lastMonthToDate += split.amount;
+        }
+      }
+      e.merchants.set(key, merchant);
+    }
+  }
+
+  const names = new Set([...byCategory.keys(), ...Object.keys(limits).filter(n => input.categories.some(c => c.name === n && !c.archived))]);
+  const categories: CategoryFact[] = Array.from(names).map(name => {
+    const e = byCategory.get(name) || { mtd: 0, lastMtd: 0, lastTotal: 0, merchants: new Map<string, MerchantFact>() };
+    const budget = limits[name] ?? null;
+    return {
+      name,
+      monthToDate: round(e.mtd),
+      lastMonthToDate: round(e.lastMtd),
+      lastMonthTotal: round(e.lastTotal),
+      changePercent: e.lastMtd > 0 ? Math.round(((e.mtd - e.lastMtd) / e.lastMtd) * 100) : null,
+      monthlyBudget: budget,
+      budgetUsedPercent: budget ? Math.round((e.mtd / budget) * 100) : null,
+      topMerchants: Array.from(e.merchants.values())
+        .filter(m => m.monthToDate > 0 || m.lastMonthToDate > 0)
+        .sort((a, b) => Math.max(b.monthToDate, b.lastMonthToDate) - Math.max(a.monthToDate, a.lastMonthToDate))
+        .slice(0, TOP_MERCHANTS)
+        .map(m => ({ ...m, monthToDate: round(m.monthToDate), lastMonthToDate: round(m.lastMonthToDate) })),
+    };
+  }).sort((a, b) => b.monthToDate - a.monthToDate);
+
+  const sum = (pick: (c: CategoryFact) => number | null) => round(categories.reduce((acc, c) => acc + (pick(c) || 0), 0));
+  const outstanding = round(buildLedger(input.transactions, input.settlements, input.rules, input.timeZone)[0]?.outstanding || 0);
+
+  return {
+    today,
+    daysInMonth: lastDay(year, month),
+    partnerNames: input.partnerNames,
+    totals: {
+      monthToDate: sum(c => c.monthToDate),
+      lastMonthToDate: sum(c => c.lastMonthToDate),
+      lastMonthTotal: sum(c => c.lastMonthTotal),
+      monthlyBudget: sum(c => c.monthlyBudget),
+    },
+    categories,
+    balance: { amount: outstanding, summary: describeBalance(outstanding, input.partnerNames, input.currency) },
+    goals: input.goals.filter(g => !g.deleted).map(g => {
+      const p = projectGoal(g, input.contributions, now);
+      return {
+        name: g.name,
+        target: g.target,
+        saved: round(p.saved),
+        percent: Math.round(p.percent),
+        targetDate: g.targetDate || null,
+        onTrack: p.onTrack,
+        requiredMonthly: p.requiredMonthly === null ? null : round(p.requiredMonthly),
+        projectedDate: p.projectedDate,
+      };
+    }),
+  };
+};
+
+/** Checks the model's JSON: tips need a title and rationale, and a category from our list (anything else becomes a general tip). */
+export const parseCoachTips = (raw: unknown, categoryNames: string[]): CoachTip[] | null => {
+  const { tips } = asFields(raw);
+  if (!Array.isArray(tips)) return null;
+  const byLowerName = new Map(categoryNames.map(name => [name.toLowerCase(), name]));
+  return tips
+    .map(asFields)
+    .map((t): CoachTip => ({
+      title: readText(t.title).trim(),
+      categoryName: byLowerName.get(readText(t.category).toLowerCase()) || null,
+      estimatedMonthlySavings: Math.max(0, round(readNumber(t.estimatedMonthlySavings))),
+      rationale: readText(t.rationale).trim(),
+    }))
+    .filter(t => t.title && t.rationale);
+};
@@ -0,0 +1,105 @@
+import { ExchangeRate, HouseholdSettings, Transaction } from '../types';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const isCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(code);
+
+/** Fills in the currency settings for households saved before they existed. */
+export const withCurrencyDefaults = (household: HouseholdSettings): HouseholdSettings => ({
+  ...household,
+  baseCurrency: household.baseCurrency && isCurrencyCode(household.baseCurrency) ? household.baseCurrency : DEFAULT_BASE_CURRENCY,
+  exchangeRates: Array.isArray(household.exchangeRates) ? household.exchangeRates.filter(r => r && isCurrencyCode(r.currency) && r.rate > 0) : [],
+});
+
+/**
+ * The rate in effect on `day` (YYYY-MM-DD): the newest one dated on or before it. A charge from
+ * before the first stored rate uses that first rate rather than having none.
+ */
+export const rateFor = (rates: ExchangeRate[], currency: string, day: string): number | null => {
+  const matching = rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date));
+  if (matching.length === 0) return null;
+  const inEffect = matching.filter(r => r.date <= day);
+  return (inEffect.length > 0 ? inEffect[inEffect.length - 1] : matching[0]).rate;
+};
+
+export const toBase = (amount: number, rate: number): number => Math.round(amount * rate * 100) / 100;
+
+/** Adds or replaces rates; a currency keeps one rate per date. */
+export const upsertRates = (rates: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map<string, ExchangeRate>(rates.map(r => [`${r.currency}:${r.date}`, r]));
+  incoming.forEach(r => byKey.set(`${r.currency}:${r.date}`, r));
+  return Array.from(byKey.values()).sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+};
+
+/**
+ * Reads a rates file. Two shapes are accepted:
+ * - CSV lines of `currency,rate[,date]`, where rate is base currency per 1 unit (a header row is skipped)
+ * - the usual JSON export `{ "base": "USD", "date": "...", "rates": { "EUR": 0.92 } }`, which quotes
+ *   units per 1 base, so each value is inverted; its base has to match ours
+ */
+export const parseRatesFile = (text: string, baseCurrency: string, today: string): ExchangeRate[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const base = String(data.base || data.base_code || '').toUpperCase();
+    if (base && base !== baseCurrency) throw new Error(`This file is quoted against ${base}, but the household currency is ${baseCurrency}.`);
+    const date = typeof data.date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(data.date) ? data.date.slice(0, 10) : today;
+    const quotes = data.rates || data.conversion_rates || {};
+    return Object.entries(quotes)
+      .map(([code, value]) => ({ currency: code.toUpperCase(), rate: Number(value) > 0 ? Math.round((1 / Number(value)) * 1e6) / 1e6 : 0, date }))
+      .filter(r => isCurrencyCode(r.currency) && r.currency !== baseCurrency && r.rate > 0);
+  }
+  return trimmed.split(/\r?\n/)
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')))
+    .map(([code = '', rate = '', date = '']) => ({
+      currency: code.toUpperCase(),
+      rate: Number(rate),
+      date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : today,
+    }))
+    .filter(r => isCurrencyCode(r.currency) && r.currency !== baseCurrency && r.rate > 0);
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * "€45.00", "¥12,000"; `digits` fixes the decimals (0 for rounded totals). Falls back to
+ * "45.00 XYZ" for codes the browser doesn't know.
+ */
+export const formatCurrency = (amount: number, currency: string, digits?: number): string => {
+  const key = `${currency}:${digits ?? ''}`;
+  try {
+    let formatter = formatters.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat('en-US', { style: 'currency', currency, ...(digits === undefined ? {} : { minimumFractionDigits: digits, maximumFractionDigits: digits }) });
+      formatters.set(key, formatter);
+    }
+    return formatter.format(amount);
+  } catch (e) {
+    return `${amount.toFixed(digits ?? 2)} ${currency}`;
+  }
+};
+
+/** The sign put in front of amount inputs: "$", "€", or the code when there is no short symbol. */
+export const currencySymbol = (currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' }).formatToParts(0).find(p => p.type === 'currency')?.value || currency;
+  } catch (e) {
+    return currency;
+  }
+};
+
+/** A Google Sheets number format for amounts in `currency`, e.g. "€"#,##0.00, or "¥"#,##0 for currencies without cents. */
+export const sheetNumberFormat = (currency: string): string => {
+  let digits = 2;
+  try {
+    digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch (e) {
+    // Unknown codes keep two decimals, like formatCurrency's fallback
+  }
+  const symbol = currencySymbol(currency);
+  // Codes like "CHF" read better with a space before the number than a sign like "€" does
+  return `"${symbol}${symbol.length > 1 ? ' ' : ''}"#,##0${digits > 0 ? `.${'0'.repeat(digits)}` : ''}`;
+};
+
+export const isForeign = (t: Transaction, baseCurrency: string): boolean =>
+  !!t.currency && t.currency !== baseCurrency && typeof t.originalAmount === 'number';
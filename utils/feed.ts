@@ -0,0 +1,51 @@
+import { Transaction, UserRole } from '../types';
+import { dayKeyIn } from './period';
+
+export type FeedSort = 'newest' | 'oldest' | 'largest' | 'smallest';
+
+export interface FeedFilters {
+  query: string;
+  category: string; // '' for all
+  userId: UserRole | '';
+  minAmount: string; // Raw input, '' for no bound
+  maxAmount: string;
+  from: string; // YYYY-MM-DD, '' for no bound
+  to: string;
+  sort: FeedSort;
+}
+
+export const EMPTY_FEED_FILTERS: FeedFilters = { query: '', category: '', userId: '', minAmount: '', maxAmount: '', from: '', to: '', sort: 'newest' };
+
+export const activeFilterCount = (f: FeedFilters): number =>
+  [f.category, f.userId, f.minAmount, f.maxAmount, f.from, f.to].filter(v => v !== '').length;
+
+/** What a row contributes to the filtered total: only the matching splits when filtering by category. */
+export const feedAmount = (t: Transaction, f: FeedFilters): number =>
+  f.category ? t.splits.filter(s => s.categoryName === f.category).reduce((acc, s) => acc + s.amount, 0) : t.totalAmount;
+
+export const filterTransactions = (transactions: Transaction[], f: FeedFilters, timeZone: string): Transaction[] => {
+  const words = f.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const min = f.minAmount === '' ? -Infinity : Number(f.minAmount);
+  const max = f.maxAmount === '' ? Infinity : Number(f.maxAmount);
+  const result = transactions.filter(t => {
+    if (words.length > 0) {
+      const haystack = `${t.description} ${t.splits.map(s => s.categoryName).join(' ')}`.toLowerCase();
+      if (!words.every(w => haystack.includes(w))) return false;
+    }
+    if (f.category && !t.splits.some(s => s.categoryName === f.category)) return false;
+    if (f.userId && t.userId !== f.userId) return false;
+    if (t.totalAmount < min || t.totalAmount > max) return false;
+    if (f.from || f.to) {
+      const day = dayKeyIn(t.date, timeZone);
+      if ((f.from && day < f.from) || (f.to && day > f.to)) return false;
+    }
+    return true;
+  });
+  const compare: Record<FeedSort, (a: Transaction, b: Transaction) => number> = {
+    newest: (a, b) => b.date.localeCompare(a.date),
+    oldest: (a, b) => a.date.localeCompare(b.date),
+    largest: (a, b) => b.totalAmount - a.totalAmount,
+    smallest: (a, b) => a.totalAmount - b.totalAmount,
+  };
+  return result.sort(compare[f.sort]);
+};
@@ -0,0 +1,45 @@
+import { UserRole } from '../types';
+
+// Readers for data that arrives untyped: sync responses, backup files, old saved rows and AI replies.
+// Each takes `unknown` and returns the type asked for, falling back when the value doesn't fit.
+
+export type Fields = Record<string, unknown>;
+
+/** The object's own fields, or none when it isn't a plain object. */
+export const asFields = (value: unknown): Fields =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Fields : {};
+
+export const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+/** Strings and numbers as text (spreadsheet cells come back as either); anything else is the fallback. */
+export const readText = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : typeof value === 'number' && Number.isFinite(value) ? String(value) : fallback;
+
+export const readNumber = (value: unknown, fallback = 0): number => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** `true` for true or "TRUE" (how the sheet stores flags); otherwise left unset. */
+export const readFlag = (value: unknown): true | undefined =>
+  value === true || (typeof value === 'string' && value.toUpperCase() === 'TRUE') || undefined;
+
+/** Non-empty strings only, for settings where a number in a text field means the value is corrupt. */
+export const readString = (value: unknown, fallback: string): string => typeof value === 'string' && value ? value : fallback;
+
+export const readBoolean = (value: unknown, fallback: boolean): boolean => typeof value === 'boolean' ? value : fallback;
+
+/** Text when there is some, otherwise undefined, for optional fields. */
+export const optionalText = (value: unknown): string | undefined => readText(value) || undefined;
+
+export const optionalNumber = (value: unknown): number | undefined => {
+  const n = readNumber(value, NaN);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const readRole = (value: unknown, fallback: UserRole = UserRole.PARTNER_1): UserRole =>
+  value === UserRole.PARTNER_1 || value === UserRole.PARTNER_2 ? value : fallback;
+
+/** One of `options`, or the fallback. */
+export const readChoice = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.find(o => o === value) ?? fallback;
@@ -0,0 +1,75 @@
+import { Goal, GoalContribution, UserRole } from '../types';
+import { normalizeGoal } from './sync';
+import { asFields, readNumber } from './fields';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pace is measured over recent contributions so an old lump sum doesn't skew the forecast
+const PACE_WINDOW_DAYS = 90;
+
+export interface GoalProjection {
+  saved: number;
+  remaining: number;
+  percent: number;
+  byPartner: Record<UserRole, number>;
+  dailyPace: number; // $ per day over the pace window
+  projectedDate: string | null; // YYYY-MM-DD, null when there is no pace yet
+  requiredMonthly: number | null; // Needed to hit targetDate, null without one
+  onTrack: boolean | null;
+}
+
+export const contributionsFor = (goalId: string, contributions: GoalContribution[]) =>
+  contributions.filter(c => c.goalId === goalId && !c.deleted);
+
+export const projectGoal = (goal: Goal, contributions: GoalContribution[], now: Date = new Date()): GoalProjection => {
+  const own = contributionsFor(goal.id, contributions);
+  const byPartner = { [UserRole.PARTNER_1]: 0, [UserRole.PARTNER_2]: 0 } as Record<UserRole, number>;
+  own.forEach(c => byPartner[c.userId] = (byPartner[c.userId] || 0) + c.amount);
+  const saved = own.reduce((acc, c) => acc + c.amount, 0);
+  const remaining = Math.max(0, goal.target - saved);
+  const percent = goal.target > 0 ? (saved / goal.target) * 100 : 0;
+
+  const windowStart = now.getTime() - PACE_WINDOW_DAYS * DAY_MS;
+  const recent = own.filter(c => new Date(c.date).getTime() >= windowStart);
+  const first = Math.min(...recent.map(c => new Date(c.date).getTime()), now.getTime());
+  const spanDays = Math.max(30, (now.getTime() - first) / DAY_MS);
+  const dailyPace = recent.reduce((acc, c) => acc + c.amount, 0) / spanDays;
+
+  let projectedDate: string | null = null;
+  if (remaining === 0) projectedDate = now.toISOString().split('T')[0];
+  else if (dailyPace > 0) projectedDate = new Date(now.getTime() + (remaining / dailyPace) * DAY_MS).toISOString().split('T')[0];
+
+  let requiredMonthly: number | null = null;
+  let onTrack: boolean | null = null;
+  if (goal.targetDate) {
+    const daysLeft = (new Date(`${goal.targetDate}T00:00:00`).getTime() - now.getTime()) / DAY_MS;
+    requiredMonthly = daysLeft > 0 ? remaining / (daysLeft / 30.44) : remaining;
+    onTrack = remaining === 0 || (projectedDate !== null && projectedDate <= goal.targetDate);
+  }
+
+  return { saved, remaining, percent, byPartner, dailyPace, projectedDate, requiredMonthly, onTrack };
+};
+
+/**
+ * Goals used to store a typed-in `current` amount. That balance becomes a single opening
+ * contribution (deterministic id, so both phones migrate to the same record).
+ */
+export const migrateLegacyGoals = (raw: unknown[]): { goals: Goal[]; contributions: GoalContribution[] } => {
+  const contributions: GoalContribution[] = [];
+  const goals = raw.map(g => {
+    const goal = normalizeGoal(g);
+    const current = readNumber(asFields(g).current);
+    if (current > 0) {
+      contributions.push({
+        id: `goal-${goal.id}-opening`,
+        goalId: goal.id,
+        userId: UserRole.PARTNER_1,
+        amount: current,
+        date: goal.updatedAt || new Date(0).toISOString(),
+        note: 'Opening balance',
+        updatedAt: goal.updatedAt,
+      });
+    }
+    return goal;
+  });
+  return { goals, contributions };
+};
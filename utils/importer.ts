@@ -0,0 +1,180 @@
+import { Transaction } from '../types';
+
+// Statements are parsed entirely in the browser; nothing here touches the network.
+
+export type DateFormat = 'auto' | 'MDY' | 'DMY' | 'YMD';
+
+export interface ImportProfile {
+  id: string;
+  name: string; // Bank or card, e.g. "Chase Visa"
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number; // Single signed column; -1 when the bank uses separate debit/credit columns
+  debitColumn: number;
+  creditColumn: number;
+  expensesAreNegative: boolean; // Sign convention of the single amount column
+  dateFormat: DateFormat;
+}
+
+export interface ImportRow {
+  key: string; // Stable within one file
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // Positive = money spent
+}
+
+export const DEFAULT_IMPORT_PROFILE: Omit<ImportProfile, 'id' | 'name'> = {
+  hasHeader: true,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountColumn: 2,
+  debitColumn: -1,
+  creditColumn: -1,
+  expensesAreNegative: true,
+  dateFormat: 'auto',
+};
+
+/** RFC 4180 style: quoted fields, doubled quotes, commas and newlines inside quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const validDay = (y: number, m: number, d: number): string | null => {
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+};
+
+/** Returns YYYY-MM-DD, or null when the value cannot be read with the given format. */
+export const parseStatementDate = (value: string, format: DateFormat): string | null => {
+  const v = value.trim();
+  const compact = v.match(/^(\d{4})(\d{2})(\d{2})/); // OFX: 20240131120000[-5:EST]
+  if (compact && (format === 'auto' || format === 'YMD')) return validDay(+compact[1], +compact[2], +compact[3]);
+  const parts = v.split(/[\/\-. ]/).filter(Boolean).map(Number);
+  if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+  const [a, b, c] = parts;
+  if (format === 'YMD' || (format === 'auto' && a > 31)) return validDay(a, b, c);
+  if (format === 'DMY') return validDay(c, b, a);
+  if (format === 'MDY') return validDay(c, a, b);
+  // auto: US month-first unless the first part cannot be a month
+  return a > 12 ? validDay(c, b, a) : validDay(c, a, b);
+};
+
+/** Handles "$1,234.56", "-12.00", "(12.00)" and trailing minus signs. */
+export const parseAmount = (value: string): number | null => {
+  let v = value.trim();
+  if (!v) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(v)) { negative = true; v = v.slice(1, -1); }
+  if (v.endsWith('-')) { negative = true; v = v.slice(0, -1); }
+  v = v.replace(/[^0-9.\-]/g, '');
+  const n = Number(v);
+  if (!v || isNaN(n)) return null;
+  return negative ? -Math.abs(n) : n;
+};
+
+export const rowsFromCsv = (rows: string[][], profile: ImportProfile): ImportRow[] => {
+  const result: ImportRow[] = [];
+  rows.slice(profile.hasHeader ? 1 : 0).forEach((cells, index) => {
+    const date = parseStatementDate(cells[profile.dateColumn] || '', profile.dateFormat);
+    let amount: number | null = null;
+    if (profile.amountColumn >= 0) {
+      const raw = parseAmount(cells[profile.amountColumn] || '');
+      if (raw !== null) amount = profile.expensesAreNegative ? -raw : raw;
+    } else {
+      const debit = parseAmount(cells[profile.debitColumn] || '');
+      const credit = parseAmount(cells[profile.creditColumn] || '');
+      if (debit !== null && debit !== 0) amount = Math.abs(debit);
+      else if (credit !== null) amount = -Math.abs(credit);
+    }
+    if (!date || amount === null) return;
+    result.push({ key: `csv-${index}`, date, description: (cells[profile.descriptionColumn] || '').trim() || 'Imported', amount });
+  });
+  return result;
+};
+
+const ofxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/** Reads <STMTTRN> entries from OFX/QFX (both the SGML 1.x and XML 2.x flavours). */
+export const parseOfx = (text: string): ImportRow[] => {
+  const result: ImportRow[] = [];
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  blocks.forEach((block, index) => {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const date = parseStatementDate(ofxTag(body, 'DTPOSTED'), 'YMD');
+    const raw = parseAmount(ofxTag(body, 'TRNAMT'));
+    if (!date || raw === null) return;
+    const name = ofxTag(body, 'NAME');
+    const memo = ofxTag(body, 'MEMO');
+    result.push({
+      key: ofxTag(body, 'FITID') || `ofx-${index}`,
+      date,
+      description: name || memo || 'Imported',
+      amount: -raw, // OFX debits are negative
+    });
+  });
+  return result;
+};
+
+export const isOfx = (fileName: string, text: string) => /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
+
+const tokens = (s: string) => new Set(s.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').split(/\s+/).filter(w => w.length > 1 && !/^\d+$/.test(w)));
+
+/** Token overlap between two merchant strings, 0 to 1; containment counts as a match. */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  if (!x || !y) return 0;
+  if (x.includes(y) || y.includes(x)) return 1;
+  const ta = tokens(x);
+  const tb = tokens(y);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / Math.min(ta.size, tb.size);
+};
+
+/** Existing entry with the same day, the same amount to the cent and a similar description. */
+export const findDuplicate = (row: ImportRow, transactions: Transaction[]): Transaction | undefined =>
+  transactions.find(t =>
+    !t.deleted &&
+    t.date.slice(0, 10) === row.date &&
+    Math.abs(t.totalAmount - row.amount) < 0.005 &&
+    descriptionSimilarity(t.description, row.description) >= 0.5
+  );
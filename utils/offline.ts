@@ -0,0 +1,48 @@
+import { asFields } from './fields';
+
+// Tag the service worker hears when the browser decides the connection is back (Background Sync API)
+export const SYNC_TAG = 'ds-sync';
+
+// Message the service worker posts to open tabs to replay a queued sync
+export const SYNC_MESSAGE = 'ds-sync';
+
+/**
+ * A sync requested while offline. Sync sends everything changed since the last cursor, so
+ * the queue only has to remember that a sync is owed, not what to send.
+ */
+export interface SyncQueue {
+  queuedAt: string;
+}
+
+export const readSyncQueue = (raw: unknown): SyncQueue | null => {
+  const { queuedAt } = asFields(raw);
+  return typeof queuedAt === 'string' ? { queuedAt } : null;
+};
+
+/** How a requested sync ended: it ran, or it was queued until the connection is back. Failures throw. */
+export type SyncOutcome = 'synced' | 'queued';
+
+// Background Sync is not in TypeScript's DOM types yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+/** True when a failed sync should wait for the connection rather than be reported as an error. */
+export const isOfflineError = (err: unknown): boolean =>
+  !navigator.onLine || (err instanceof TypeError && /fetch|network|load failed/i.test(err.message));
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('./sw.js').catch(err => console.error("Service worker registration failed", err));
+};
+
+/** Asks the service worker to wake us when connectivity returns; the `online` event covers browsers without Background Sync. */
+export const requestBackgroundSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration: SyncRegistration | undefined = await navigator.serviceWorker.getRegistration();
+    await registration?.sync?.register(SYNC_TAG);
+  } catch (err) {
+    console.error("Background sync unavailable", err);
+  }
+};
@@ -0,0 +1,114 @@
+export type PeriodKind = 'month' | 'quarter' | 'year' | 'custom';
+
+export interface Period {
+  kind: PeriodKind;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate(); // month is 1-based
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const formatterFor = (timeZone: string) => {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    try {
+      f = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch (e) {
+      // Unknown zone names (e.g. typed by hand) fall back to UTC rather than breaking every view
+      f = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' });
+    }
+    formatters.set(timeZone, f);
+  }
+  return f;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Calendar day (YYYY-MM-DD) of a stored timestamp in the household's timezone. Entries picked
+ * from a date input are saved as UTC midnight; those are date-only and keep their calendar day.
+ */
+export const dayKeyIn = (iso: string, timeZone?: string): string => {
+  if (!timeZone || /T00:00:00(\.000)?Z$/.test(iso)) return new Date(iso).toISOString().split('T')[0];
+  const parts = formatterFor(timeZone).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+/** The month, quarter or year containing `day` (YYYY-MM-DD). */
+export const periodContaining = (kind: Exclude<PeriodKind, 'custom'>, day: string): Period => {
+  const [year, month] = day.split('-').map(Number);
+  if (kind === 'year') return { kind, start: `${year}-01-01`, end: `${year}-12-31` };
+  const first = kind === 'quarter' ? Math.floor((month - 1) / 3) * 3 + 1 : month;
+  const last = kind === 'quarter' ? first + 2 : month;
+  return { kind, start: `${year}-${pad(first)}-01`, end: `${year}-${pad(last)}-${pad(lastDayOfMonth(year, last))}` };
+};
+
+export const currentPeriod = (kind: Exclude<PeriodKind, 'custom'>, timeZone: string, now: Date = new Date()): Period =>
+  periodContaining(kind, dayKeyIn(now.toISOString(), timeZone));
+
+/** Steps a period back or forward; custom ranges move by their own length. */
+export const shiftPeriod = (period: Period, delta: number): Period => {
+  if (period.kind === 'custom') {
+    const length = Math.round((Date.parse(period.end) - Date.parse(period.start)) / DAY_MS) + 1;
+    const move = (day: string) => new Date(Date.parse(day) + delta * length * DAY_MS).toISOString().split('T')[0];
+    return { ...period, start: move(period.start), end: move(period.end) };
+  }
+  const [year, month] = period.start.split('-').map(Number);
+  const months = (period.kind === 'year' ? 12 : period.kind === 'quarter' ? 3 : 1) * delta;
+  const index = year * 12 + (month - 1) + months;
+  return periodContaining(period.kind, `${Math.floor(index / 12)}-${pad((index % 12) + 1)}-01`);
+};
+
+export const inPeriod = (iso: string, period: Period, timeZone: string): boolean => {
+  if (isNaN(new Date(iso).getTime())) return false;
+  const day = dayKeyIn(iso, timeZone);
+  return day >= period.start && day <= period.end;
+};
+
+/** How many monthly budgets a period spans; custom ranges count partial months by days. */
+export const periodMonths = (period: Period): number => {
+  if (period.kind === 'year') return 12;
+  if (period.kind === 'quarter') return 3;
+  if (period.kind === 'month') return 1;
+  const days = Math.round((Date.parse(period.end) - Date.parse(period.start)) / DAY_MS) + 1;
+  return Math.max(0, days) / (365.25 / 12);
+};
+
+export const describePeriod = (period: Period): string => {
+  const [year, month] = period.start.split('-').map(Number);
+  const monthName = (m: number) => new Date(Date.UTC(2000, m - 1, 1)).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' });
+  if (period.kind === 'year') return String(year);
+  if (period.kind === 'quarter') return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+  if (period.kind === 'month') return `${monthName(month)} ${year}`;
+  const short = (day: string) => new Date(`${day}T00:00:00.000Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${short(period.start)} – ${short(period.end)}`;
+};
+
+/** Calendar months (YYYY-MM) the period touches, oldest first. */
+export const monthsInPeriod = (period: Period): string[] => {
+  const keys: string[] = [];
+  let [year, month] = period.start.split('-').map(Number);
+  const last = period.end.slice(0, 7);
+  while (keys.length < 1200) {
+    const key = `${year}-${pad(month)}`;
+    if (key > last) break;
+    keys.push(key);
+    month++;
+    if (month > 12) { month = 1; year++; }
+  }
+  return keys;
+};
@@ -0,0 +1,245 @@
+import { CategoryDefinition, CategoryRule, PartnerNames, Transaction, TransactionSplit, UserRole } from '../types';
+import { CATEGORY_KEYWORDS } from '../constants';
+import { ruleMatches } from './categorize';
+import { asFields, asList, readNumber, readRole, readText } from './fields';
+
+// Free-text entry like "45 groceries trish yesterday" or "120 costco 80 food 40 housewares".
+// Deterministic and offline; the AI fallback in geminiService only runs when the user asks.
+
+export interface QuickEntryContext {
+  categories: CategoryDefinition[]; // Pickable (non-archived) categories
+  partnerNames: PartnerNames;
+  merchants: MerchantIndex;
+  rules: CategoryRule[]; // The household's categorization rules, in order
+  today: string; // YYYY-MM-DD in the household timezone
+  defaultPayer: UserRole;
+}
+
+export interface QuickEntryDraft {
+  description: string;
+  date: string; // YYYY-MM-DD
+  userId: UserRole;
+  splits: TransactionSplit[];
+  total: number;
+  issues: string[]; // Why the draft needs a look before saving; empty when it can be saved as is
+}
+
+// Lowercased past description -> category of its newest entry
+export type MerchantIndex = Map<string, string>;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+// Glue words that carry no meaning once the amount, payer and date are pulled out
+const FILLER = new Set(['on', 'at', 'for', 'by', 'from', 'paid', 'spent', 'in', 'and', 'split']);
+const AMOUNT = /^\$?(\d+(?:[.,]\d{1,2})?)\$?$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const addDays = (day: string, days: number): string => {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const words = (s: string) => s.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+export const buildMerchantIndex = (transactions: Transaction[]): MerchantIndex => {
+  const index: MerchantIndex = new Map();
+  [...transactions]
+    .filter(t => !t.deleted && t.splits.length > 0)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .forEach(t => {
+      const key = words(t.description).join(' ');
+      if (key && !index.has(key)) index.set(key, t.splits[0].categoryName);
+    });
+  return index;
+};
+
+/** Most recent day (today included) falling on the given weekday; `last` skips today. */
+const lastWeekday = (today: string, weekday: number, skipToday: boolean): string => {
+  const current = new Date(`${today}T00:00:00Z`).getUTCDay();
+  let back = (current - weekday + 7) % 7;
+  if (back === 0 && skipToday) back = 7;
+  return addDays(today, -back);
+};
+
+/** A day that hasn't happened yet this year is taken to mean last year. */
+const pastDay = (today: string, month: number, day: number, year?: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const thisYear = Number(today.slice(0, 4));
+  const y = year === undefined ? thisYear : year < 100 ? 2000 + year : year;
+  const candidate = `${y}-${pad(month)}-${pad(day)}`;
+  return year === undefined && candidate > today ? `${y - 1}-${pad(month)}-${pad(day)}` : candidate;
+};
+
+// "oct", "sept" and "october" all count; "decor" doesn't
+const monthIndex = (token: string) => token.length >= 3 ? MONTHS.findIndex(m => m.startsWith(token)) : -1;
+
+/** Pulls a date phrase out of the tokens (mutating them) and returns the day it means. */
+const takeDate = (tokens: string[], today: string): string | null => {
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const next = tokens[i + 1];
+    const found = ((): [number, string | null] | null => {
+      if (t === 'today' || t === 'tonight') return [1, today];
+      if (t === 'yesterday' || t === 'yday') return [1, addDays(today, -1)];
+      if (/^\d+$/.test(t) && (next === 'days' || next === 'day' || next === 'weeks' || next === 'week') && tokens[i + 2] === 'ago') {
+        return [3, addDays(today, -Number(t) * (next.startsWith('week') ? 7 : 1))];
+      }
+      if (t === 'last' && next === 'week') return [2, addDays(today, -7)];
+      if (t === 'a' && next === 'week' && tokens[i + 2] === 'ago') return [3, addDays(today, -7)];
+      if (t === 'last' && next && next.length >= 3 && WEEKDAYS.some(d => d.startsWith(next))) {
+        return [2, lastWeekday(today, WEEKDAYS.findIndex(d => d.startsWith(next)), true)];
+      }
+      if (WEEKDAYS.includes(t)) return [1, lastWeekday(today, WEEKDAYS.indexOf(t), false)];
+      let m = t.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (m) return [1, pastDay(today, Number(m[2]), Number(m[3]), Number(m[1]))];
+      m = t.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+      if (m) return [1, pastDay(today, Number(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined)];
+      if (monthIndex(t) >= 0 && next && /^\d{1,2}(st|nd|rd|th)?$/.test(next)) return [2, pastDay(today, monthIndex(t) + 1, parseInt(next, 10))];
+      // "12 oct"; a number right after an amount isn't read as a day
+      if (/^\d{1,2}(st|nd|rd|th)?$/.test(t) && next && monthIndex(next) >= 0 && !AMOUNT.test(tokens[i - 1] || '')) {
+        return [2, pastDay(today, monthIndex(next) + 1, parseInt(t, 10))];
+      }
+      return null;
+    })();
+    if (found && found[1]) {
+      // A leading "on" ("on friday") goes with the date
+      const start = i > 0 && tokens[i - 1] === 'on' ? i - 1 : i;
+      tokens.splice(start, found[0] + (i - start));
+      return found[1];
+    }
+  }
+  return null;
+};
+
+const takePayer = (tokens: string[], partnerNames: PartnerNames): UserRole | null => {
+  const roles = [UserRole.PARTNER_1, UserRole.PARTNER_2];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/'s$/, '');
+    const role = roles.find(r => {
+      const name = words(partnerNames[r])[0];
+      return !!name && name === token;
+    });
+    if (role) {
+      tokens.splice(i, 1);
+      return role;
+    }
+  }
+  return null;
+};
+
+/**
+ * Category for some words: a category name (or former name) first, then the household's rules,
+ * then what the same merchant was filed under before, then the keyword list.
+ */
+export const matchCategory = (phrase: string[], ctx: Pick<QuickEntryContext, 'categories' | 'merchants' | 'rules'>): string | null => {
+  if (phrase.length === 0) return null;
+  const joined = phrase.join(' ');
+  for (const c of ctx.categories) {
+    const names = [c.name, ...(c.aliases || [])].map(n => words(n).join(' '));
+    if (names.includes(joined)) return c.name;
+  }
+  for (const c of ctx.categories) {
+    // "dining" finds "Dining out", "auto" finds "Auto Stuff/ repairs"
+    if (phrase.some(w => w.length >= 3 && words(c.name)[0] === w)) return c.name;
+  }
+  const rule = ctx.rules.find(r => ctx.categories.some(c => c.name === r.categoryName) && ruleMatches(r, joined));
+  if (rule) return rule.categoryName;
+  const known = ctx.merchants.get(joined);
+  if (known && ctx.categories.some(c => c.name === known)) return known;
+  for (const [merchant, category] of ctx.merchants) {
+    const merchantWords = merchant.split(' ');
+    if (phrase.every(w => merchantWords.includes(w)) && ctx.categories.some(c => c.name === category)) return category;
+  }
+  for (const c of ctx.categories) {
+    const keywords = CATEGORY_KEYWORDS[c.name] || [];
+    if (phrase.some(w => keywords.includes(w))) return c.name;
+  }
+  return null;
+};
+
+const describe = (tokens: string[]): string => {
+  const kept = tokens.filter((t, i) => !(FILLER.has(t) && (i === 0 || i === tokens.length - 1)));
+  return kept.map(t => FILLER.has(t) ? t : t.charAt(0).toUpperCase() + t.slice(1)).join(' ');
+};
+
+export const parseQuickEntry = (text: string, ctx: QuickEntryContext): QuickEntryDraft | null => {
+  const tokens = text.toLowerCase().replace(/[,;]+(\s|$)/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+  const issues: string[] = [];
+  const date = takeDate(tokens, ctx.today) || ctx.today;
+  const userId = takePayer(tokens, ctx.partnerNames) || ctx.defaultPayer;
+  const fallback = ctx.categories[0]?.name || '';
+
+  // Each amount starts a segment that runs until the next amount
+  const lead: string[] = [];
+  const segments: { amount: number; words: string[] }[] = [];
+  tokens.forEach(t => {
+    const m = t.match(AMOUNT);
+    if (m) segments.push({ amount: Number(m[1].replace(',', '.')), words: [] });
+    else (segments.length > 0 ? segments[segments.length - 1].words : lead).push(t);
+  });
+  const content = (ws: string[]) => ws.filter(w => !FILLER.has(w));
+
+  if (segments.length === 0) {
+    return { description: describe(lead), date, userId, splits: [{ categoryName: matchCategory(content(lead), ctx) || fallback, amount: 0 }], total: 0, issues: ['No amount'] };
+  }
+
+  const [first, ...rest] = segments;
+  const restTotal = round(rest.reduce((acc, s) => acc + s.amount, 0));
+  let descriptionWords: string[];
+  let splits: TransactionSplit[];
+
+  if (rest.length > 0 && Math.abs(first.amount - restTotal) < 0.01) {
+    // "120 costco 80 food 40 housewares": a total, then amount + category pairs
+    descriptionWords = [...lead, ...first.words];
+    splits = rest.map(s => {
+      const categoryName = matchCategory(content(s.words), ctx);
+      if (!categoryName) issues.push(`No category for "${s.words.join(' ') || s.amount}"`);
+      return { categoryName: categoryName || fallback, amount: s.amount };
+    });
+  } else if (rest.length > 0) {
+    // "30 food 20 gas": every amount is a split, and the split categories are all we know
+    const named = segments.map(s => ({ ...s, categoryName: matchCategory(content(s.words), ctx) }));
+    if (named.some(s => !s.categoryName)) issues.push("Several amounts that don't add up to the first");
+    descriptionWords = lead.length > 0 ? lead : [];
+    splits = named.map(s => ({ categoryName: s.categoryName || fallback, amount: s.amount }));
+  } else {
+    descriptionWords = [...lead, ...first.words];
+    const categoryName = matchCategory(content(descriptionWords), ctx);
+    if (!categoryName) issues.push('No category recognized');
+    splits = [{ categoryName: categoryName || fallback, amount: first.amount }];
+  }
+
+  const total = round(splits.reduce((acc, s) => acc + s.amount, 0));
+  if (total <= 0) issues.push('Amount must be more than 0');
+  const description = describe(descriptionWords) || Array.from(new Set(splits.map(s => s.categoryName))).join(' + ');
+  return { description, date, userId, splits, total, issues };
+};
+
+/** Cleans up the AI's answer into the same draft shape; null when it is unusable. */
+export const draftFromAI = (raw: unknown, ctx: QuickEntryContext): QuickEntryDraft | null => {
+  const r = asFields(raw);
+  const splits: TransactionSplit[] = asList(r.splits)
+    .map(asFields)
+    .map(s => ({
+      categoryName: ctx.categories.find(c => c.name.toLowerCase() === readText(s.category).toLowerCase())?.name || ctx.categories[0]?.name || '',
+      amount: round(readNumber(s.amount)),
+    }))
+    .filter(s => s.amount > 0);
+  if (splits.length === 0) return null;
+  const day = readText(r.date);
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(day) && day <= ctx.today ? day : ctx.today;
+  const userId = readRole(r.payer, ctx.defaultPayer);
+  return {
+    description: readText(r.description).trim() || splits[0].categoryName,
+    date,
+    userId,
+    splits,
+    total: round(splits.reduce((acc, s) => acc + s.amount, 0)),
+    issues: [],
+  };
+};
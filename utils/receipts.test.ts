@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GenerateContentParameters } from '@google/genai';
+import { CategoryDefinition } from '../types';
+import { AIClient, extractReceipt } from '../services/geminiService';
+import { ReceiptExtraction, parseReceiptExtraction, splitsFromReceipt } from './receipts';
+
+const CATEGORY_NAMES = ['Food', 'Housewares', 'Beers'];
+const categories: CategoryDefinition[] = CATEGORY_NAMES.map((name, i) => ({ id: String(i), name, color: '', icon: '', updatedAt: '' }));
+const image = { mimeType: 'image/jpeg', data: 'aGVsbG8=' };
+
+/** Answers every call with `reply` (or rejects with it) and records what was asked. */
+const fakeClient = (reply: string | Error) => {
+  const calls: GenerateContentParameters[] = [];
+  const client: AIClient = {
+    models: {
+      generateContent: async params => {
+        calls.push(params);
+        if (reply instanceof Error) throw reply;
+        return { text: reply };
+      },
+    },
+  };
+  return { client, calls };
+};
+
+const receipt = (total: number, items: ReceiptExtraction['items']): ReceiptExtraction => ({ merchant: 'Corner Shop', date: null, total, currency: null, items });
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('parseReceiptExtraction', () => {
+  it('cleans up amounts, dates and currency codes', () => {
+    const result = parseReceiptExtraction({
+      merchant: '  Corner Shop ',
+      date: '2026-03-14',
+      total: '$12.50',
+      currency: 'eur',
+      items: [{ description: 'Bread', amount: '4.505', category: 'food' }, { description: 'Coupon', amount: 0, category: 'Food' }],
+    }, CATEGORY_NAMES);
+    expect(result).toEqual({
+      merchant: 'Corner Shop',
+      date: '2026-03-14',
+      total: 12.5,
+      currency: 'EUR',
+      items: [{ description: 'Bread', amount: 4.51, categoryName: 'Food' }],
+    });
+  });
+
+  it('leaves categories outside the list unassigned', () => {
+    const result = parseReceiptExtraction({ total: 3, items: [{ description: 'Lottery ticket', amount: 3, category: 'Gambling' }] }, CATEGORY_NAMES);
+    expect(result?.items[0].categoryName).toBeNull();
+  });
+
+  it('drops dates and currencies it cannot read', () => {
+    const result = parseReceiptExtraction({ total: 3, date: '14/03/2026', currency: 'euros', items: [] }, CATEGORY_NAMES);
+    expect(result?.date).toBeNull();
+    expect(result?.currency).toBeNull();
+  });
+
+  it('falls back to the sum of the lines when the total is missing', () => {
+    const result = parseReceiptExtraction({ items: [{ description: 'A', amount: 2.25 }, { description: 'B', amount: 1.5 }] }, CATEGORY_NAMES);
+    expect(result?.total).toBe(3.75);
+  });
+
+  it('rejects replies with nothing to log', () => {
+    expect(parseReceiptExtraction(null, CATEGORY_NAMES)).toBeNull();
+    expect(parseReceiptExtraction('receipt', CATEGORY_NAMES)).toBeNull();
+    expect(parseReceiptExtraction({ merchant: 'Corner Shop', items: 'none' }, CATEGORY_NAMES)).toBeNull();
+    expect(parseReceiptExtraction({ total: -5, items: [] }, CATEGORY_NAMES)).toBeNull();
+  });
+});
+
+describe('splitsFromReceipt', () => {
+  const sum = (splits: { amount: number }[]) => Math.round(splits.reduce((acc, s) => acc + s.amount, 0) * 100) / 100;
+
+  it('shares tax left out of the lines in proportion to each category', () => {
+    const splits = splitsFromReceipt(receipt(11, [
+      { description: 'Bread', amount: 6, categoryName: 'Food' },
+      { description: 'Sponges', amount: 4, categoryName: 'Housewares' },
+    ]), 'Food');
+    expect(splits).toEqual([{ categoryName: 'Food', amount: 6.6 }, { categoryName: 'Housewares', amount: 4.4 }]);
+  });
+
+  it('scales lines down when they add up to more than the total', () => {
+    const splits = splitsFromReceipt(receipt(9, [
+      { description: 'Bread', amount: 5, categoryName: 'Food' },
+      { description: 'Beer', amount: 5, categoryName: 'Beers' },
+    ]), 'Food');
+    expect(sum(splits)).toBe(9);
+    expect(splits.map(s => s.amount)).toEqual([4.5, 4.5]);
+  });
+
+  it('puts the rounding on the largest split so the splits match the total exactly', () => {
+    const splits = splitsFromReceipt(receipt(10, [
+      { description: 'A', amount: 1, categoryName: 'Food' },
+      { description: 'B', amount: 1, categoryName: 'Housewares' },
+      { description: 'C', amount: 1, categoryName: 'Beers' },
+    ]), 'Food');
+    expect(sum(splits)).toBe(10);
+  });
+
+  it('files unassigned lines under the fallback category', () => {
+    const splits = splitsFromReceipt(receipt(5, [
+      { description: 'Lottery ticket', amount: 2, categoryName: null },
+      { description: 'Bread', amount: 3, categoryName: 'Food' },
+    ]), 'Housewares');
+    expect(splits).toEqual([{ categoryName: 'Food', amount: 3 }, { categoryName: 'Housewares', amount: 2 }]);
+  });
+
+  it('uses one split for the total when there are no lines', () => {
+    expect(splitsFromReceipt(receipt(7.2, []), 'Food')).toEqual([{ categoryName: 'Food', amount: 7.2 }]);
+  });
+});
+
+describe('extractReceipt', () => {
+  it('sends the photo with our categories and returns the checked reply', async () => {
+    const { client, calls } = fakeClient(JSON.stringify({ merchant: 'Corner Shop', total: 4, items: [{ description: 'Milk', amount: 4, category: 'Food' }] }));
+    const result = await extractReceipt(image, categories, client);
+    expect(result?.items).toEqual([{ description: 'Milk', amount: 4, categoryName: 'Food' }]);
+    expect(JSON.stringify(calls[0].contents)).toContain(image.data);
+    expect(JSON.stringify(calls[0].config?.responseSchema)).toContain('"enum":["Food","Housewares","Beers"]');
+  });
+
+  it('returns null for a reply that is not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeClient('Sorry, I could not read that receipt.');
+    expect(await extractReceipt(image, categories, client)).toBeNull();
+  });
+
+  it('returns null when the call is rejected', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeClient(new Error('quota exceeded'));
+    expect(await extractReceipt(image, categories, client)).toBeNull();
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('returns null without a client', async () => {
+    expect(await extractReceipt(image, categories, null)).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { TransactionSplit } from '../types';
+import { asFields, asList, readText } from './fields';
+
+// Receipts are shrunk before they are stored or sent: plenty for reading line items, a fraction of a camera photo
+const MAX_EDGE = 1600;
+const JPEG_QUALITY = 0.8;
+
+export interface ReceiptImage {
+  blob: Blob;
+  mimeType: string;
+  data: string; // base64, without the data: prefix
+}
+
+export interface ReceiptLine {
+  description: string;
+  amount: number;
+  categoryName: string | null; // null when the model picked something outside our list
+}
+
+/** What the AI read off a receipt, checked and cleaned up (see parseReceiptExtraction). */
+export interface ReceiptExtraction {
+  merchant: string;
+  date: string | null; // YYYY-MM-DD
+  total: number;
+  currency: string | null; // ISO 4217, when printed on the receipt
+  items: ReceiptLine[];
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const prepareReceiptImage = async (file: Blob): Promise<ReceiptImage> => {
+  let blob = file;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    blob = await new Promise<Blob>(resolve => canvas.toBlob(b => resolve(b || file), 'image/jpeg', JPEG_QUALITY));
+  } catch (err) {
+    // Formats the browser can't decode (e.g. HEIC outside Safari) are kept and sent as they are
+    console.warn("Receipt not resized", err);
+  }
+  return { blob, mimeType: blob.type || 'image/jpeg', data: await blobToBase64(blob) };
+};
+
+const toAmount = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : Number(String(value ?? '').replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0;
+};
+
+/** Validates the model's JSON; anything unusable comes back as null rather than half-filled. */
+export const parseReceiptExtraction = (raw: unknown, categoryNames: string[]): ReceiptExtraction | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = asFields(raw);
+  const byLowerName = new Map(categoryNames.map(name => [name.toLowerCase(), name]));
+  const items: ReceiptLine[] = asList(r.items)
+    .map(asFields)
+    .map(item => ({
+      description: readText(item.description).trim(),
+      amount: toAmount(item.amount),
+      categoryName: byLowerName.get(readText(item.category).toLowerCase()) || null,
+    }))
+    .filter(item => item.amount !== 0);
+  const total = toAmount(r.total) || Math.round(items.reduce((acc, i) => acc + i.amount, 0) * 100) / 100;
+  if (total <= 0) return null;
+  const currency = readText(r.currency).trim().toUpperCase();
+  return {
+    merchant: readText(r.merchant).trim(),
+    date: typeof r.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(r.date) ? r.date : null,
+    total,
+    currency: /^[A-Z]{3}$/.test(currency) ? currency : null,
+    items,
+  };
+};
+
+/**
+ * One split per category, adding up to the receipt total. Tax, deposits and other amounts not
+ * itemized against a category are shared out in proportion to each split, and the largest split
+ * absorbs the rounding.
+ */
+export const splitsFromReceipt = (receipt: ReceiptExtraction, fallbackCategory: string): TransactionSplit[] => {
+  const byCategory = new Map<string, number>();
+  receipt.items.forEach(item => {
+    const name = item.categoryName || fallbackCategory;
+    byCategory.set(name, (byCategory.get(name) || 0) + item.amount);
+  });
+  const itemized = Array.from(byCategory.values()).reduce((acc, v) => acc + v, 0);
+  if (byCategory.size === 0 || itemized <= 0) return [{ categoryName: fallbackCategory, amount: receipt.total }];
+
+  const splits = Array.from(byCategory.entries())
+    .map(([categoryName, amount]) => ({ categoryName, amount: Math.round((amount / itemized) * receipt.total * 100) / 100 }))
+    .filter(s => s.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  const drift = Math.round((receipt.total - splits.reduce((acc, s) => acc + s.amount, 0)) * 100) / 100;
+  splits[0].amount = Math.round((splits[0].amount + drift) * 100) / 100;
+  return splits;
+};
@@ -0,0 +1,104 @@
+import { Transaction, RecurringTemplate, RecurrenceRule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (day: string): Date => new Date(`${day}T00:00:00.000Z`);
+const formatDay = (d: Date): string => d.toISOString().split('T')[0];
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** Local calendar date as YYYY-MM-DD, which is how the New Log form records dates. */
+export const todayKey = (now: Date = new Date()): string =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+/** Every occurrence date (YYYY-MM-DD) of the rule within [from, to], both inclusive. */
+export const occurrencesBetween = (rule: RecurrenceRule, from: string, to: string): string[] => {
+  const result: string[] = [];
+  const start = parseDay(rule.startDate);
+  if (isNaN(start.getTime())) return result;
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const interval = Math.max(1, Math.floor(rule.interval) || 1);
+
+  for (let n = 0; n < 10000; n++) {
+    let d: Date;
+    if (rule.frequency === 'daily' || rule.frequency === 'weekly') {
+      const step = rule.frequency === 'daily' ? interval : interval * 7;
+      d = new Date(start.getTime() + n * step * DAY_MS);
+    } else {
+      const months = rule.frequency === 'monthly' ? n * interval : n * interval * 12;
+      const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + months) / 12);
+      const month = (start.getUTCMonth() + months) % 12;
+      const day = Math.min(rule.dayOfMonth || start.getUTCDate(), daysInMonth(year, month));
+      d = new Date(Date.UTC(year, month, day));
+    }
+    const key = formatDay(d);
+    if (key > last) break;
+    if (key >= from && key >= rule.startDate) result.push(key);
+  }
+  return result;
+};
+
+/**
+ * The id is derived from the template and the date, so both phones generate the very same
+ * record and sync merges them into one instead of charging rent twice.
+ */
+export const occurrenceId = (templateId: string, day: string) => `rec-${templateId}-${day}`;
+
+/**
+ * Stamped with its own date rather than the time it was generated, so a phone generating it late
+ * (or again after a wipe) never beats an edit or delete the other phone has already synced.
+ */
+export const buildOccurrence = (template: RecurringTemplate, day: string): Transaction => ({
+  id: occurrenceId(template.id, day),
+  updatedAt: parseDay(day).toISOString(),
+  description: template.description,
+  date: parseDay(day).toISOString(),
+  userId: template.userId,
+  splits: template.splits.map(s => ({ ...s })),
+  totalAmount: template.splits.reduce((acc, s) => acc + (Number(s.amount) || 0), 0),
+  recurringId: template.id,
+  ...(template.splitRule ? { splitRule: template.splitRule } : {}),
+});
+
+/**
+ * Creates every due entry up to `today` that this device has never seen. Existing ids (tombstones
+ * included) are skipped, so a deleted occurrence stays deleted and re-running is a no-op.
+ */
+export const materializeDue = (templates: RecurringTemplate[], transactions: Transaction[], today: string = todayKey()): Transaction[] => {
+  const known = new Set(transactions.map(t => t.id));
+  const created: Transaction[] = [];
+  for (const template of templates) {
+    if (template.deleted || template.paused) continue;
+    for (const day of occurrencesBetween(template.rule, template.rule.startDate, today)) {
+      const id = occurrenceId(template.id, day);
+      if (!known.has(id)) created.push(buildOccurrence(template, day));
+    }
+  }
+  return created;
+};
+
+export interface UpcomingCharge {
+  template: RecurringTemplate;
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export const upcomingCharges = (templates: RecurringTemplate[], days: number = 30, today: string = todayKey()): UpcomingCharge[] => {
+  const from = formatDay(new Date(parseDay(today).getTime() + DAY_MS));
+  const to = formatDay(new Date(parseDay(today).getTime() + days * DAY_MS));
+  const charges: UpcomingCharge[] = [];
+  for (const template of templates) {
+    if (template.deleted || template.paused) continue;
+    const amount = template.splits.reduce((acc, s) => acc + (Number(s.amount) || 0), 0);
+    occurrencesBetween(template.rule, from, to).forEach(date => charges.push({ template, date, amount }));
+  }
+  return charges.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const describeRule = (rule: RecurrenceRule): string => {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[rule.frequency];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  const on = rule.frequency === 'monthly' && rule.dayOfMonth ? ` on day ${rule.dayOfMonth}` : '';
+  const until = rule.endDate ? ` until ${rule.endDate}` : '';
+  return `${every}${on}${until}`;
+};
@@ -0,0 +1,119 @@
+import { Transaction, TransactionSplit, Settlement, SettlementRules, SplitRule, UserRole, PartnerNames, PartnerProfiles } from '../types';
+import { dayKeyIn } from './period';
+import { formatCurrency } from './currency';
+
+export const DEFAULT_SETTLEMENT_RULES: SettlementRules = {
+  defaultPartner1Share: 0.45,
+  useIncomeRatio: false,
+  categoryRules: {},
+  updatedAt: '',
+};
+
+/** PARTNER_1's share of income, or null unless both incomes are set. */
+export const incomeShare = (profiles: PartnerProfiles): number | null => {
+  const p1 = profiles[UserRole.PARTNER_1].monthlyIncome || 0;
+  const p2 = profiles[UserRole.PARTNER_2].monthlyIncome || 0;
+  return p1 > 0 && p2 > 0 ? p1 / (p1 + p2) : null;
+};
+
+/** Resolves the income-proportional default into a plain share so every calculation sees one rule set. */
+export const effectiveRules = (rules: SettlementRules, profiles: PartnerProfiles): SettlementRules => {
+  const share = rules.useIncomeRatio ? incomeShare(profiles) : null;
+  return share === null ? rules : { ...rules, defaultPartner1Share: share };
+};
+
+export interface SettlementSummary {
+  partner1Paid: number;
+  partner2Paid: number;
+  partner1Share: number;
+  partner2Share: number;
+  balance: number; // > 0: PARTNER_1 owes PARTNER_2, < 0: PARTNER_2 owes PARTNER_1
+}
+
+/** Per-transaction override beats the category rule, which beats the household default. */
+export const resolveSplitRule = (t: Transaction, split: TransactionSplit, rules: SettlementRules): SplitRule =>
+  t.splitRule || rules.categoryRules[split.categoryName] || { kind: 'shared', partner1Share: rules.defaultPartner1Share };
+
+/** Amount PARTNER_1 should carry for one split, given who paid it. */
+const partner1ShareOf = (t: Transaction, split: TransactionSplit, rules: SettlementRules): number => {
+  const rule = resolveSplitRule(t, split, rules);
+  if (rule.kind === 'personal') return t.userId === UserRole.PARTNER_1 ? split.amount : 0;
+  return split.amount * Math.min(1, Math.max(0, rule.partner1Share));
+};
+
+export const computeSettlement = (transactions: Transaction[], rules: SettlementRules): SettlementSummary => {
+  const summary: SettlementSummary = { partner1Paid: 0, partner2Paid: 0, partner1Share: 0, partner2Share: 0, balance: 0 };
+  for (const t of transactions) {
+    if (t.deleted) continue;
+    if (t.userId === UserRole.PARTNER_1) summary.partner1Paid += t.totalAmount;
+    else summary.partner2Paid += t.totalAmount;
+    for (const split of t.splits) {
+      const p1 = partner1ShareOf(t, split, rules);
+      summary.partner1Share += p1;
+      summary.partner2Share += split.amount - p1;
+    }
+  }
+  summary.balance = summary.partner1Share - summary.partner1Paid;
+  return summary;
+};
+
+export interface LedgerMonth {
+  key: string; // YYYY-MM
+  carriedIn: number; // Outstanding balance brought forward from earlier months
+  owed: number; // Balance created by this month's expenses
+  paid: number; // Net settle-up payments from PARTNER_1 to PARTNER_2 this month
+  outstanding: number; // carriedIn + owed - paid; same sign convention as SettlementSummary.balance
+}
+
+/** Calendar month (YYYY-MM) in the household timezone; UTC when none is given. */
+export const monthKey = (iso: string, timeZone?: string): string => dayKeyIn(iso, timeZone).slice(0, 7);
+
+/** Positive when PARTNER_1 paid PARTNER_2, i.e. the amount reduces what PARTNER_1 owes. */
+export const settlementFlow = (s: Settlement): number => s.payer === UserRole.PARTNER_1 ? s.amount : -s.amount;
+
+/**
+ * Walks every month that has expenses or payments, oldest first, carrying the unsettled
+ * balance forward so nothing owed in a past month is forgotten. Returned newest first.
+ */
+export const buildLedger = (transactions: Transaction[], settlements: Settlement[], rules: SettlementRules, timeZone?: string): LedgerMonth[] => {
+  const txByMonth: Record<string, Transaction[]> = {};
+  const paidByMonth: Record<string, number> = {};
+  for (const t of transactions) {
+    if (t.deleted || isNaN(new Date(t.date).getTime())) continue;
+    const key = monthKey(t.date, timeZone);
+    if (!txByMonth[key]) txByMonth[key] = [];
+    txByMonth[key].push(t);
+  }
+  for (const s of settlements) {
+    if (s.deleted || isNaN(new Date(s.date).getTime())) continue;
+    const key = monthKey(s.date, timeZone);
+    paidByMonth[key] = (paidByMonth[key] || 0) + settlementFlow(s);
+  }
+
+  const keys = Array.from(new Set([...Object.keys(txByMonth), ...Object.keys(paidByMonth)])).sort();
+  const months: LedgerMonth[] = [];
+  let carried = 0;
+  for (const key of keys) {
+    const owed = computeSettlement(txByMonth[key] || [], rules).balance;
+    const paid = paidByMonth[key] || 0;
+    const outstanding = carried + owed - paid;
+    months.push({ key, carriedIn: carried, owed, paid, outstanding });
+    carried = outstanding;
+  }
+  return months.reverse();
+};
+
+export const describeBalance = (balance: number, partnerNames: PartnerNames, currency: string): string => {
+  if (Math.abs(balance) < 0.005) return 'All square';
+  const [debtor, creditor] = balance > 0
+    ? [partnerNames[UserRole.PARTNER_1], partnerNames[UserRole.PARTNER_2]]
+    : [partnerNames[UserRole.PARTNER_2], partnerNames[UserRole.PARTNER_1]];
+  return `${debtor} owes ${creditor} ${formatCurrency(Math.abs(balance), currency)}`;
+};
+
+export const describeSplitRule = (rule: SplitRule | undefined, partnerNames: PartnerNames): string => {
+  if (!rule) return 'Default';
+  if (rule.kind === 'personal') return 'Personal';
+  const p1 = Math.round(rule.partner1Share * 100);
+  return `${partnerNames[UserRole.PARTNER_1]} ${p1}% / ${partnerNames[UserRole.PARTNER_2]} ${100 - p1}%`;
+};
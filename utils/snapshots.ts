@@ -0,0 +1,74 @@
+import { SyncRecord, Budgets } from '../types';
+import { BackupData } from './backup';
+import { tombstone } from './sync';
+
+export type SnapshotReason = 'sync' | 'wipe' | 'restore';
+
+export interface Snapshot {
+  id: string;
+  takenAt: string;
+  reason: SnapshotReason;
+  data: BackupData;
+}
+
+// Each snapshot is a full copy of local data, so only a handful are kept
+export const MAX_SNAPSHOTS = 5;
+export const TRASH_RETENTION_DAYS = 30;
+
+export const pushSnapshot = (snapshots: Snapshot[], reason: SnapshotReason, data: BackupData): Snapshot[] => {
+  const takenAt = new Date().toISOString();
+  return [{ id: `snap-${takenAt}`, takenAt, reason, data }, ...snapshots].slice(0, MAX_SNAPSHOTS);
+};
+
+/** Tombstones deleted within the retention window, most recently deleted first. */
+export const trashedRecords = <T extends SyncRecord>(records: T[], now: Date = new Date()): T[] => {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return records.filter(r => r.deleted && r.updatedAt >= cutoff).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+const rollbackRecords = <T extends SyncRecord>(current: T[], target: T[], now: string): T[] => {
+  const before = new Map(current.map(r => [r.id, r]));
+  const restored = target.map(r => {
+    const existing = before.get(r.id);
+    return existing && JSON.stringify(existing) === JSON.stringify(r) ? existing : { ...r, updatedAt: now };
+  });
+  const kept = new Set(target.map(r => r.id));
+  // Records created after the snapshot go to the trash rather than vanishing, and the tombstone syncs
+  const added = current.filter(r => !kept.has(r.id)).map(r => r.deleted ? r : tombstone(r));
+  return [...restored, ...added];
+};
+
+const rollbackBudgets = (current: Budgets, target: Budgets, now: string): Budgets => {
+  const result: Budgets = {};
+  for (const [name, budget] of Object.entries(target)) {
+    result[name] = JSON.stringify(current[name]) === JSON.stringify(budget) ? budget : { ...budget, updatedAt: now };
+  }
+  // Budgets set after the snapshot become "no budget" from the start, which syncs like any other edit
+  for (const name of Object.keys(current)) {
+    if (!result[name]) result[name] = { versions: [], updatedAt: now };
+  }
+  return result;
+};
+
+/**
+ * Returns local data as it was in the snapshot. Every record that differs is re-stamped as a
+ * fresh edit, so the next sync pushes the rollback out instead of pulling the newer cloud copy back.
+ */
+export const rollbackTo = (current: BackupData, target: BackupData): BackupData => {
+  const now = new Date().toISOString();
+  const stamp = <T extends { updatedAt: string }>(a: T, b: T): T => JSON.stringify(a) === JSON.stringify(b) ? a : { ...b, updatedAt: now };
+  return {
+    transactions: rollbackRecords(current.transactions, target.transactions, now),
+    settlements: rollbackRecords(current.settlements, target.settlements, now),
+    recurring: rollbackRecords(current.recurring, target.recurring, now),
+    categories: rollbackRecords(current.categories, target.categories, now),
+    goals: rollbackRecords(current.goals, target.goals, now),
+    goalContributions: rollbackRecords(current.goalContributions, target.goalContributions, now),
+    budgets: rollbackBudgets(current.budgets, target.budgets, now),
+    settlementRules: stamp(current.settlementRules, target.settlementRules),
+    partnerProfiles: stamp(current.partnerProfiles, target.partnerProfiles),
+    household: stamp(current.household, target.household),
+    // Snapshots taken before categorization rules existed leave the current rules alone
+    categorization: target.categorization ? stamp(current.categorization, target.categorization) : current.categorization,
+  };
+};
@@ -0,0 +1,245 @@
+import { asFields, asList } from './fields';
+
+const DB_NAME = 'duospend';
+const DB_VERSION = 2;
+const VALUES_STORE = 'values';
+// Receipt photos, keyed by Transaction.receiptId; added in version 2
+const RECEIPTS_STORE = 'receipts';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+// An empty store can't tell "never saved" from "everything deleted", so the collections saved so far are listed here
+const SAVED_COLLECTIONS_KEY = 'savedCollections';
+
+// Record collections get an object store each, keyed by id, so one edit writes one row
+export const RECORD_STORES = ['transactions', 'settlements', 'recurring', 'categories', 'goals', 'goalContributions'] as const;
+export type RecordStore = typeof RECORD_STORES[number];
+
+// Whole-object state is small (or rarely written) and lives in a single key-value store
+export type ValueKey = 'budgets' | 'settlementRules' | 'partnerProfiles' | 'household' | 'categorization' | 'snapshots' | 'alertLog' | 'syncCursor' | 'syncQueue';
+
+const LEGACY_RECORD_KEYS: Record<RecordStore, string> = {
+  transactions: 'ds_tx',
+  settlements: 'ds_settlements',
+  recurring: 'ds_recurring',
+  categories: 'ds_categories',
+  goals: 'ds_goals',
+  goalContributions: 'ds_goal_contributions',
+};
+
+const LEGACY_VALUE_KEYS: Record<ValueKey, string> = {
+  budgets: 'ds_budgets',
+  settlementRules: 'ds_settlement_rules',
+  partnerProfiles: 'ds_partner_profiles',
+  household: 'ds_household',
+  categorization: 'ds_categorization',
+  snapshots: 'ds_snapshots',
+  alertLog: 'ds_alert_log',
+  syncCursor: 'ds_sync_cursor',
+  syncQueue: 'ds_sync_queue',
+};
+
+/** Raw stored data, unchecked until App reads it; a collection or value is missing when it has never been saved. */
+export interface StoredState {
+  records: Partial<Record<RecordStore, unknown[]>>;
+  values: Partial<Record<ValueKey, unknown>>;
+}
+
+let db: IDBDatabase | null = null;
+
+// What each store last held, so a save only touches records that actually changed
+const written = new Map<RecordStore, Map<string, unknown>>();
+const writtenValues = new Map<ValueKey, unknown>();
+let savedCollections = new Set<RecordStore>();
+
+const request = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const committed = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const database = req.result;
+    for (const store of RECORD_STORES) {
+      if (!database.objectStoreNames.contains(store)) database.createObjectStore(store, { keyPath: 'id' });
+    }
+    if (!database.objectStoreNames.contains(VALUES_STORE)) database.createObjectStore(VALUES_STORE);
+    if (!database.objectStoreNames.contains(RECEIPTS_STORE)) database.createObjectStore(RECEIPTS_STORE);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+  req.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+});
+
+const readLegacy = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    // The sync cursor was stored as a bare string, not JSON
+    return saved;
+  }
+};
+
+const readLocalStorage = (): StoredState => {
+  const state: StoredState = { records: {}, values: {} };
+  for (const store of RECORD_STORES) {
+    const value = readLegacy(LEGACY_RECORD_KEYS[store]);
+    if (Array.isArray(value)) state.records[store] = value;
+  }
+  for (const key of Object.keys(LEGACY_VALUE_KEYS) as ValueKey[]) {
+    const value = readLegacy(LEGACY_VALUE_KEYS[key]);
+    if (value !== undefined) state.values[key] = value;
+  }
+  return state;
+};
+
+/**
+ * Copies the old `ds_*` localStorage blobs into IndexedDB in one transaction and only then
+ * removes them, so an interrupted migration just runs again on the next launch.
+ */
+const migrateLocalStorage = async (database: IDBDatabase): Promise<void> => {
+  const legacy = readLocalStorage();
+  const tx = database.transaction([...RECORD_STORES, VALUES_STORE], 'readwrite');
+  for (const store of RECORD_STORES) {
+    for (const record of (legacy.records[store] || []).map(asFields)) {
+      if (record.id !== undefined && record.id !== null) tx.objectStore(store).put({ ...record, id: String(record.id) });
+    }
+  }
+  const values = tx.objectStore(VALUES_STORE);
+  for (const [key, value] of Object.entries(legacy.values)) values.put(value, key);
+  values.put(RECORD_STORES.filter(s => legacy.records[s] !== undefined), SAVED_COLLECTIONS_KEY);
+  values.put(new Date().toISOString(), MIGRATED_KEY);
+  await committed(tx);
+  for (const key of [...Object.values(LEGACY_RECORD_KEYS), ...Object.values(LEGACY_VALUE_KEYS)]) localStorage.removeItem(key);
+};
+
+const readDatabase = async (database: IDBDatabase): Promise<StoredState> => {
+  const state: StoredState = { records: {}, values: {} };
+  const tx = database.transaction([...RECORD_STORES, VALUES_STORE], 'readonly');
+  const values = tx.objectStore(VALUES_STORE);
+  const [keys, entries, saved] = await Promise.all([
+    request(values.getAllKeys()),
+    request(values.getAll()),
+    Promise.all(RECORD_STORES.map(store => request(tx.objectStore(store).getAll()))),
+  ]);
+  keys.forEach((key, i) => {
+    if (key === SAVED_COLLECTIONS_KEY) savedCollections = new Set(RECORD_STORES.filter(store => asList(entries[i]).includes(store)));
+    else if (key !== MIGRATED_KEY) state.values[key as ValueKey] = entries[i];
+  });
+  RECORD_STORES.forEach((store, i) => {
+    if (saved[i].length > 0 || savedCollections.has(store)) state.records[store] = saved[i];
+  });
+  return state;
+};
+
+/**
+ * Opens IndexedDB (migrating old localStorage data the first time) and reads everything the
+ * app needs to start. Falls back to localStorage when IndexedDB is unavailable, e.g. some
+ * private browsing modes.
+ */
+export const loadState = async (): Promise<StoredState> => {
+  let state: StoredState;
+  try {
+    db = await openDatabase();
+    const migrated = await request(db.transaction(VALUES_STORE, 'readonly').objectStore(VALUES_STORE).get(MIGRATED_KEY));
+    if (!migrated) await migrateLocalStorage(db);
+    state = await readDatabase(db);
+  } catch (err) {
+    console.error("IndexedDB unavailable, using localStorage", err);
+    db = null;
+    state = readLocalStorage();
+  }
+  for (const store of RECORD_STORES) {
+    written.set(store, new Map((state.records[store] || []).map(r => [String(asFields(r).id), r])));
+  }
+  for (const [key, value] of Object.entries(state.values)) writtenValues.set(key as ValueKey, value);
+  return state;
+};
+
+const writeLegacy = (key: string, value: unknown) => {
+  // Snapshots are the largest thing we store; if the quota is hit, keep as many of the newest as fit
+  const attempts = key === LEGACY_VALUE_KEYS.snapshots && Array.isArray(value)
+    ? Array.from({ length: value.length + 1 }, (_, i) => value.slice(0, value.length - i))
+    : [value];
+  for (const attempt of attempts) {
+    try {
+      localStorage.setItem(key, typeof attempt === 'string' ? attempt : JSON.stringify(attempt));
+      return;
+    } catch (err) {
+      console.error(`Storage full while saving ${key}`, err);
+    }
+  }
+};
+
+/** Saves a collection, writing only the records that were added, changed or removed since the last save. */
+export const persistRecords = (store: RecordStore, records: { id: string }[]): void => {
+  const previous = written.get(store) || new Map<string, unknown>();
+  if (!db) {
+    written.set(store, new Map(records.map(r => [r.id, r])));
+    writeLegacy(LEGACY_RECORD_KEYS[store], records);
+    return;
+  }
+
+  const puts: { id: string }[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    seen.add(record.id);
+    const before = previous.get(record.id);
+    // Untouched records keep their object identity; only fall back to comparing content for fresh copies
+    if (before !== record && (before === undefined || JSON.stringify(before) !== JSON.stringify(record))) puts.push(record);
+    previous.set(record.id, record);
+  }
+  const deletes = Array.from(previous.keys()).filter(id => !seen.has(id));
+  deletes.forEach(id => previous.delete(id));
+  written.set(store, previous);
+  const firstSave = !savedCollections.has(store);
+  if (puts.length === 0 && deletes.length === 0 && !firstSave) return;
+
+  const tx = db.transaction([store, VALUES_STORE], 'readwrite');
+  const objects = tx.objectStore(store);
+  puts.forEach(r => objects.put(r));
+  deletes.forEach(id => objects.delete(id));
+  if (firstSave) {
+    savedCollections.add(store);
+    tx.objectStore(VALUES_STORE).put(Array.from(savedCollections), SAVED_COLLECTIONS_KEY);
+  }
+  committed(tx).catch(err => console.error(`Could not save ${store}`, err));
+};
+
+export const persistValue = (key: ValueKey, value: unknown): void => {
+  if (writtenValues.get(key) === value) return;
+  writtenValues.set(key, value);
+  if (!db) {
+    writeLegacy(LEGACY_VALUE_KEYS[key], value);
+    return;
+  }
+  const tx = db.transaction(VALUES_STORE, 'readwrite');
+  tx.objectStore(VALUES_STORE).put(value, key);
+  committed(tx).catch(err => console.error(`Could not save ${key}`, err));
+};
+
+/**
+ * Receipt photos stay on the phone that took them: they are too large to sync or keep in
+ * localStorage, so without IndexedDB this returns false and the entry is saved without one.
+ */
+export const saveReceipt = async (id: string, image: Blob): Promise<boolean> => {
+  if (!db) return false;
+  const tx = db.transaction(RECEIPTS_STORE, 'readwrite');
+  tx.objectStore(RECEIPTS_STORE).put(image, id);
+  await committed(tx);
+  return true;
+};
+
+/** Null when the photo was taken on the other phone (or this one has been reset). */
+export const loadReceipt = async (id: string): Promise<Blob | null> => {
+  if (!db) return null;
+  const image = await request(db.transaction(RECEIPTS_STORE, 'readonly').objectStore(RECEIPTS_STORE).get(id));
+  return image instanceof Blob ? image : null;
+};
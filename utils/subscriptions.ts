@@ -0,0 +1,163 @@
+import { RecurrenceFrequency, RecurringTemplate, Transaction, UserRole } from '../types';
+import { merchantKey } from './categorize';
+import { dayKeyIn } from './period';
+
+// Finds charges that repeat on a schedule (subscriptions, memberships, insurance) in plain history.
+// Deterministic and offline; the AI only comments on what this finds.
+
+export type Cadence = Extract<RecurrenceFrequency, 'weekly' | 'monthly' | 'yearly'>;
+
+export interface PriceChange {
+  date: string; // YYYY-MM-DD of the first charge at the new price
+  from: number;
+  to: number;
+}
+
+export interface DetectedCharge {
+  key: string; // Normalized merchant, see merchantKey
+  merchant: string; // Description of the latest charge
+  cadence: Cadence;
+  count: number;
+  averageAmount: number;
+  lastAmount: number;
+  lastDate: string; // YYYY-MM-DD
+  nextDate: string; // YYYY-MM-DD, when the next charge is expected
+  lapsed: boolean; // The expected charge is well overdue, so it was probably cancelled (never set once tracked)
+  priceChanges: PriceChange[];
+  categoryName: string;
+  userId: UserRole;
+  trackedBy?: string; // Id of the recurring bill that already covers it
+}
+
+interface CadenceSpec {
+  days: [number, number]; // Accepted gap between charges, inclusive
+  minCharges: number;
+  grace: number; // Days past the expected date before it counts as lapsed
+}
+
+const CADENCES: Record<Cadence, CadenceSpec> = {
+  weekly: { days: [5, 9], minCharges: 3, grace: 7 },
+  monthly: { days: [26, 35], minCharges: 3, grace: 15 },
+  yearly: { days: [350, 380], minCharges: 2, grace: 45 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round = (n: number) => Math.round(n * 100) / 100;
+const daysBetween = (a: string, b: string) => Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / DAY_MS);
+
+/** The day one cadence after `day`; monthly and yearly keep the day of the month where it exists. */
+export const nextChargeDate = (day: string, cadence: Cadence): string => {
+  const d = new Date(`${day}T00:00:00Z`);
+  if (cadence === 'weekly') return new Date(d.getTime() + 7 * DAY_MS).toISOString().split('T')[0];
+  const months = cadence === 'monthly' ? 1 : 12;
+  const year = d.getUTCFullYear() + Math.floor((d.getUTCMonth() + months) / 12);
+  const month = (d.getUTCMonth() + months) % 12;
+  const last = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(d.getUTCDate(), last))).toISOString().split('T')[0];
+};
+
+/** Roughly what the charge costs per month, for totals across cadences. */
+export const monthlyCost = (charge: DetectedCharge): number =>
+  charge.cadence === 'weekly' ? charge.lastAmount * 52 / 12 : charge.cadence === 'yearly' ? charge.lastAmount / 12 : charge.lastAmount;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const detectGroup = (charges: { day: string; t: Transaction }[], today: string): Omit<DetectedCharge, 'key' | 'trackedBy'> | null => {
+  const gaps = charges.slice(1).map((c, i) => daysBetween(charges[i].day, c.day));
+  if (gaps.length === 0) return null;
+  const typical = median(gaps);
+  const cadence = (Object.keys(CADENCES) as Cadence[]).find(c => typical >= CADENCES[c].days[0] && typical <= CADENCES[c].days[1]);
+  if (!cadence) return null;
+  const spec = CADENCES[cadence];
+  if (charges.length < spec.minCharges) return null;
+  // One odd gap (a late or skipped charge) is tolerated; a mostly irregular history is not a subscription
+  const regular = gaps.filter(g => g >= spec.days[0] && g <= spec.days[1]).length;
+  if (regular < Math.max(1, gaps.length - Math.floor(gaps.length / 4))) return null;
+
+  // A subscription repeats the same amount and changes price rarely; grocery runs don't
+  const amounts = charges.map(c => round(c.t.totalAmount));
+  const priceChanges: PriceChange[] = [];
+  amounts.forEach((a, i) => {
+    if (i > 0 && Math.abs(a - amounts[i - 1]) >= 0.01) priceChanges.push({ date: charges[i].day, from: amounts[i - 1], to: a });
+  });
+  if (priceChanges.length > Math.max(1, Math.floor(gaps.length / 3))) return null;
+  if (Math.max(...amounts) > Math.min(...amounts) * 1.5) return null;
+
+  const latest = charges[charges.length - 1].t;
+  const main = [...latest.splits].sort((a, b) => b.amount - a.amount)[0];
+  const lastDate = charges[charges.length - 1].day;
+  const nextDate = nextChargeDate(lastDate, cadence);
+  return {
+    merchant: latest.description,
+    cadence,
+    count: charges.length,
+    averageAmount: round(amounts.reduce((acc, a) => acc + a, 0) / amounts.length),
+    lastAmount: amounts[amounts.length - 1],
+    lastDate,
+    nextDate,
+    lapsed: daysBetween(nextDate, today) > spec.grace,
+    priceChanges,
+    categoryName: main?.categoryName || '',
+    userId: latest.userId,
+  };
+};
+
+/**
+ * Groups entries by merchant and keeps the ones charged weekly, monthly or yearly at a steady
+ * price. Entries generated from recurring bills are skipped; a merchant that already has a bill
+ * is still listed, marked with `trackedBy`. Untracked active charges come first, by monthly cost.
+ */
+export const detectRecurringCharges = (transactions: Transaction[], templates: RecurringTemplate[], today: string, timeZone?: string): DetectedCharge[] => {
+  const groups = new Map<string, { day: string; t: Transaction }[]>();
+  transactions.forEach(t => {
+    if (t.deleted || t.recurringId) return;
+    const key = merchantKey(t.description);
+    if (!key) return;
+    const list = groups.get(key) || [];
+    list.push({ day: dayKeyIn(t.date, timeZone), t });
+    groups.set(key, list);
+  });
+
+  const tracked = new Map<string, string>();
+  templates.forEach(r => { if (!r.deleted && !r.paused) tracked.set(merchantKey(r.description), r.id); });
+
+  const found: DetectedCharge[] = [];
+  groups.forEach((list, key) => {
+    // Two entries on one day are a split purchase or a duplicate, not two charges
+    const byDay = new Map<string, { day: string; t: Transaction }>();
+    list.forEach(c => { if (!byDay.has(c.day)) byDay.set(c.day, c); });
+    const charges = Array.from(byDay.values()).sort((a, b) => a.day.localeCompare(b.day));
+    const detected = detectGroup(charges, today);
+    if (!detected) return;
+    // Later charges of a tracked bill are generated entries, so its own history stops where tracking began
+    const trackedBy = tracked.get(key);
+    found.push(trackedBy ? { key, ...detected, lapsed: false, trackedBy } : { key, ...detected });
+  });
+  return found.sort((a, b) => Number(!!a.trackedBy) - Number(!!b.trackedBy) || Number(a.lapsed) - Number(b.lapsed) || monthlyCost(b) - monthlyCost(a));
+};
+
+/** The first expected charge on or after `today`, so a bill started from it never backfills charges that were missed. */
+const nextDueFrom = (charge: DetectedCharge, today: string): string => {
+  let day = charge.nextDate;
+  while (day < today) day = nextChargeDate(day, charge.cadence);
+  return day;
+};
+
+/** A recurring bill that picks up from the next charge still to come, so nothing already logged or skipped is repeated. */
+export const templateFromCharge = (charge: DetectedCharge, id: string, today: string): RecurringTemplate => ({
+  id,
+  updatedAt: new Date().toISOString(),
+  description: charge.merchant,
+  userId: charge.userId,
+  splits: [{ categoryName: charge.categoryName, amount: charge.lastAmount }],
+  rule: {
+    frequency: charge.cadence,
+    interval: 1,
+    startDate: nextDueFrom(charge, today),
+    ...(charge.cadence === 'monthly' ? { dayOfMonth: Number(charge.lastDate.slice(8, 10)) } : {}),
+  },
+});
@@ -1,136 +1,897 @@
-import { Transaction } from '../types';
+import { normalizeBudgets } from './budgets';
+import { SyncBackend, SyncRequest } from './syncBackend';
+import { signRequest, deriveEncryptionKey, sealTransaction, openTransaction, isSealed } from './syncAuth';
+import { asFields, asList, optionalNumber, optionalText, readBoolean, readChoice, readFlag, readNumber, readRole, readString, readText } from './fields';
+import { isCurrencyCode, sheetNumberFormat, withCurrencyDefaults } from './currency';
+import { isValidTimeZone } from './period';
+import { DEFAULT_ALERT_PREFERENCES } from './alerts';
+import { Transaction, TransactionSplit, SplitRule, Settlement, CategoryDefinition, RecurringTemplate, RecurrenceRule, RecurrenceFrequency, SyncRecord, Budgets, SettlementRules, PartnerProfile, PartnerProfiles, AlertPreferences, HouseholdSettings, CategorizationSettings, CategoryRule, CategoryRuleMatch, Goal, GoalContribution, UserRole } from '../types';
+
+export interface SyncPayload {
+  transactions: Transaction[];
+  settlements: Settlement[];
+  recurring: RecurringTemplate[];
+  categories: CategoryDefinition[];
+  goals: Goal[];
+  goalContributions: GoalContribution[];
+  budgets: Budgets;
+  settlementRules: SettlementRules;
+  partnerProfiles: PartnerProfiles;
+  household: HouseholdSettings;
+  categorization: CategorizationSettings;
+}
+
+export interface SyncResult extends SyncPayload {
+  syncedAt: string;
+}
+
+/** Device-local sync credentials; the secret is never synced or backed up. */
+export interface SyncAuth {
+  secret: string; // Shared household secret; requests are HMAC-signed with it
+  encrypt: boolean; // Upload transactions end-to-end encrypted so the server only stores ciphertext
+}
 
 /**
- * Atomic Synchronization: Sends local data and gets the full cloud state back in ONE request.
- * This prevents race conditions where a GET might return empty data before the POST finishes.
+ * Deterministic conflict rule shared with the Apps Script: the newer `updatedAt` wins,
+ * a tombstone wins a tie, and any remaining tie is broken by comparing the serialized records
+ * so both devices (and the sheet) always converge on the same version.
  */
-export const performSync = async (url: string, transactions: Transaction[], budgets: Record<string, number>) => {
+export const pickWinner = <T extends Pick<SyncRecord, 'updatedAt' | 'deleted'>>(a: T | undefined, b: T | undefined): T | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  const aTime = a.updatedAt || '';
+  const bTime = b.updatedAt || '';
+  if (aTime !== bTime) return aTime > bTime ? a : b;
+  if (!!a.deleted !== !!b.deleted) return a.deleted ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+export const mergeRecords = <T extends SyncRecord>(local: T[], remote: T[]): T[] => {
+  const byId = new Map<string, T>();
+  for (const r of [...local, ...remote]) {
+    const winner = pickWinner(byId.get(r.id), r);
+    if (winner) byId.set(r.id, winner);
+  }
+  return Array.from(byId.values());
+};
+
+/** Per category, the newer budget edit wins; same rule as every other synced setting. */
+export const mergeBudgets = (local: Budgets, remote: Budgets): Budgets => {
+  const result: Budgets = { ...local };
+  for (const [name, budget] of Object.entries(remote)) {
+    result[name] = pickWinner(local[name], budget) || budget;
+  }
+  return result;
+};
+
+/** Stamps a record as deleted so the tombstone wins the next merge on every device. */
+export const tombstone = <T extends SyncRecord>(r: T): T => ({ ...r, deleted: true, updatedAt: new Date().toISOString() });
+
+/** Brings a tombstoned record back; the fresh timestamp lets the restore beat the delete on every device. */
+export const untombstone = <T extends SyncRecord>(r: T): T => ({ ...r, deleted: undefined, updatedAt: new Date().toISOString() });
+
+const readSplits = (value: unknown): TransactionSplit[] => asList(value).map(raw => {
+  const s = asFields(raw);
+  return { categoryName: readText(s.categoryName), amount: readNumber(s.amount) };
+});
+
+const readSplitRule = (value: unknown): SplitRule | undefined => {
+  const r = asFields(value);
+  if (r.kind === 'personal') return { kind: 'personal' };
+  if (r.kind === 'shared') return { kind: 'shared', partner1Share: Math.min(1, Math.max(0, readNumber(r.partner1Share, 0.5))) };
+  return undefined;
+};
+
+const readRule = (value: unknown): RecurrenceRule => {
+  const r = asFields(value);
+  return {
+    frequency: readChoice<RecurrenceFrequency>(r.frequency, ['daily', 'weekly', 'monthly', 'yearly'], 'monthly'),
+    interval: readNumber(r.interval) || 1,
+    startDate: readText(r.startDate),
+    dayOfMonth: optionalNumber(r.dayOfMonth),
+    endDate: optionalText(r.endDate),
+  };
+};
+
+/** Fills in sync metadata for rows saved before record-level merge existed. */
+export const normalizeTransaction = (raw: unknown): Transaction => {
+  const t = asFields(raw);
+  return {
+    id: readText(t.id),
+    date: readText(t.date),
+    description: readText(t.description),
+    userId: readRole(t.userId),
+    totalAmount: readNumber(t.totalAmount),
+    splits: readSplits(t.splits),
+    splitRule: readSplitRule(t.splitRule),
+    recurringId: optionalText(t.recurringId),
+    currency: optionalText(t.currency),
+    originalAmount: optionalNumber(t.originalAmount),
+    exchangeRate: optionalNumber(t.exchangeRate),
+    receiptId: optionalText(t.receiptId),
+    updatedAt: readText(t.updatedAt) || readText(t.date),
+    deleted: readFlag(t.deleted),
+  };
+};
+
+export const normalizeCategory = (raw: unknown): CategoryDefinition => {
+  const c = asFields(raw);
+  return {
+    id: readText(c.id),
+    name: readText(c.name),
+    icon: readText(c.icon),
+    color: readText(c.color),
+    aliases: asList(c.aliases).map(a => readText(a)).filter(Boolean),
+    archived: readFlag(c.archived),
+    updatedAt: readText(c.updatedAt),
+    deleted: readFlag(c.deleted),
+  };
+};
+
+export const normalizeRecurring = (raw: unknown): RecurringTemplate => {
+  const r = asFields(raw);
+  return {
+    id: readText(r.id),
+    description: readText(r.description),
+    userId: readRole(r.userId),
+    splits: readSplits(r.splits),
+    rule: readRule(r.rule),
+    splitRule: readSplitRule(r.splitRule),
+    paused: readFlag(r.paused),
+    updatedAt: readText(r.updatedAt),
+    deleted: readFlag(r.deleted),
+  };
+};
+
+export const normalizeSettlement = (raw: unknown): Settlement => {
+  const s = asFields(raw);
+  const payer = readRole(s.payer);
+  return {
+    id: readText(s.id),
+    payer,
+    payee: readRole(s.payee, payer === UserRole.PARTNER_1 ? UserRole.PARTNER_2 : UserRole.PARTNER_1),
+    amount: readNumber(s.amount),
+    date: readText(s.date),
+    note: readText(s.note),
+    updatedAt: readText(s.updatedAt) || readText(s.date),
+    deleted: readFlag(s.deleted),
+  };
+};
+
+export const normalizeGoal = (raw: unknown): Goal => {
+  const g = asFields(raw);
+  return {
+    id: readText(g.id),
+    name: readText(g.name),
+    icon: readText(g.icon),
+    target: readNumber(g.target),
+    targetDate: optionalText(g.targetDate),
+    updatedAt: readText(g.updatedAt),
+    deleted: readFlag(g.deleted),
+  };
+};
+
+export const normalizeGoalContribution = (raw: unknown): GoalContribution => {
+  const c = asFields(raw);
+  return {
+    id: readText(c.id),
+    goalId: readText(c.goalId),
+    userId: readRole(c.userId),
+    amount: readNumber(c.amount),
+    date: readText(c.date),
+    note: optionalText(c.note),
+    updatedAt: readText(c.updatedAt) || readText(c.date),
+    deleted: readFlag(c.deleted),
+  };
+};
+
+/** Reads the settlement rules field by field; anything missing or of the wrong kind keeps the fallback's value. */
+export const normalizeSettlementRules = (raw: unknown, fallback: SettlementRules): SettlementRules => {
+  const r = asFields(raw);
+  const categoryRules: Record<string, SplitRule> = {};
+  for (const [name, value] of Object.entries(asFields(r.categoryRules))) {
+    const rule = readSplitRule(value);
+    if (rule) categoryRules[name] = rule;
+  }
+  return {
+    defaultPartner1Share: Math.min(1, Math.max(0, readNumber(r.defaultPartner1Share, fallback.defaultPartner1Share))),
+    useIncomeRatio: readBoolean(r.useIncomeRatio, fallback.useIncomeRatio),
+    categoryRules: r.categoryRules && typeof r.categoryRules === 'object' ? categoryRules : fallback.categoryRules,
+    updatedAt: readString(r.updatedAt, fallback.updatedAt),
+  };
+};
+
+const readThreshold = (value: unknown, fallback: number | null): number | null => value === null ? null : optionalNumber(value) ?? fallback;
+
+const readAlertPreferences = (value: unknown): AlertPreferences | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const a = asFields(value);
+  const d = DEFAULT_ALERT_PREFERENCES;
+  return {
+    categoryWarning: readBoolean(a.categoryWarning, d.categoryWarning),
+    categoryOver: readBoolean(a.categoryOver, d.categoryOver),
+    totalOver: readBoolean(a.totalOver, d.totalOver),
+    largeExpense: readThreshold(a.largeExpense, d.largeExpense),
+    balanceAbove: readThreshold(a.balanceAbove, d.balanceAbove),
+    notifications: readBoolean(a.notifications, d.notifications),
+  };
+};
+
+const readPartnerProfile = (value: unknown, fallback: PartnerProfile): PartnerProfile => {
+  const p = asFields(value);
+  const monthlyIncome = optionalNumber(p.monthlyIncome);
+  const alerts = readAlertPreferences(p.alerts);
+  return {
+    name: readString(p.name, fallback.name),
+    color: readString(p.color, fallback.color),
+    avatar: readString(p.avatar, fallback.avatar),
+    ...(monthlyIncome !== undefined ? { monthlyIncome } : {}),
+    ...(alerts ? { alerts } : {}),
+  };
+};
+
+export const normalizePartnerProfiles = (raw: unknown, fallback: PartnerProfiles): PartnerProfiles => {
+  const p = asFields(raw);
+  return {
+    [UserRole.PARTNER_1]: p[UserRole.PARTNER_1] ? readPartnerProfile(p[UserRole.PARTNER_1], fallback[UserRole.PARTNER_1]) : fallback[UserRole.PARTNER_1],
+    [UserRole.PARTNER_2]: p[UserRole.PARTNER_2] ? readPartnerProfile(p[UserRole.PARTNER_2], fallback[UserRole.PARTNER_2]) : fallback[UserRole.PARTNER_2],
+    updatedAt: readString(p.updatedAt, fallback.updatedAt),
+  };
+};
+
+export const normalizeHousehold = (raw: unknown, fallback: HouseholdSettings): HouseholdSettings => {
+  const h = asFields(raw);
+  const timeZone = readString(h.timeZone, fallback.timeZone);
+  const baseCurrency = readString(h.baseCurrency, fallback.baseCurrency);
+  return withCurrencyDefaults({
+    timeZone: isValidTimeZone(timeZone) ? timeZone : fallback.timeZone,
+    baseCurrency: isCurrencyCode(baseCurrency) ? baseCurrency : fallback.baseCurrency,
+    exchangeRates: Array.isArray(h.exchangeRates)
+      ? h.exchangeRates.map(asFields).map(r => ({ currency: readText(r.currency), rate: readNumber(r.rate), date: readText(r.date) }))
+      : fallback.exchangeRates,
+    updatedAt: readString(h.updatedAt, fallback.updatedAt),
+  });
+};
+
+export const normalizeCategorization = (raw: unknown, fallback: CategorizationSettings): CategorizationSettings => {
+  const c = asFields(raw);
+  const rules: CategoryRule[] = asList(c.rules).map(asFields).map(r => ({
+    id: readText(r.id),
+    pattern: readText(r.pattern),
+    match: readChoice<CategoryRuleMatch>(r.match, ['contains', 'startsWith', 'exact'], 'contains'),
+    categoryName: readText(r.categoryName),
+  }));
+  return {
+    rules: Array.isArray(c.rules) ? rules.filter(r => r.pattern && r.categoryName) : fallback.rules,
+    autoApplyThreshold: Math.min(1, Math.max(0, readNumber(c.autoApplyThreshold, fallback.autoApplyThreshold))),
+    updatedAt: readString(c.updatedAt, fallback.updatedAt),
+  };
+};
+
+/**
+ * A whole-object setting from the server, kept only if it is an object with a timestamp. Each
+ * field must have the same kind of value as in `local`; anything else keeps the local value.
+ */
+const readSetting = <T extends { updatedAt: string }>(raw: unknown, local: T): T | undefined => {
+  const remote = asFields(raw);
+  if (typeof remote.updatedAt !== 'string') return undefined;
+  const result = { ...local };
+  for (const key of Object.keys(local) as (keyof T & string)[]) {
+    const value = remote[key];
+    const expected = local[key];
+    if (value === undefined || Array.isArray(value) !== Array.isArray(expected)) continue;
+    if (typeof value === typeof expected && (value === null) === (expected === null)) result[key] = value as T[typeof key];
+  }
+  return result;
+};
+
+// Encrypted rows can come back even from a phone that doesn't encrypt its own uploads
+const openIfSealed = async (t: unknown, key: CryptoKey | null): Promise<unknown> => {
+  if (!isSealed(t)) return t;
+  if (!key) throw new Error("Entries on the server are encrypted. Enter the household secret in Setup.");
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ transactions, budgets, action: 'sync' }),
-      headers: {
-        'Content-Type': 'text/plain;charset=utf-8',
-      },
-    });
+    return await openTransaction(t, key);
+  } catch (err) {
+    throw new Error("Could not decrypt synced entries. Is the household secret the same on both phones?");
+  }
+};
 
-    if (!response.ok) {
-      throw new Error(`Cloud sync failed: ${response.status}`);
-    }
-    
-    const data = await response.json();
+/**
+ * Delta Synchronization: Sends only the records changed since `since` and gets the full cloud state
+ * (including tombstones) back in ONE request. The caller merges the result into local state by `id`,
+ * so entries added on either phone while offline are never overwritten.
+ */
+export const performSync = async (backend: SyncBackend, local: SyncPayload, since?: string, auth?: SyncAuth): Promise<SyncResult> => {
+  // Taken before the request so edits made while it is in flight are picked up by the next sync
+  const syncedAt = new Date().toISOString();
+  const { transactions, settlements, recurring, categories, goals, goalContributions, budgets, settlementRules, partnerProfiles, household, categorization } = local;
+  const changedSince = <T extends SyncRecord>(records: T[]) => since ? records.filter(r => r.updatedAt > since) : records;
+
+  try {
+    const key = auth?.secret ? await deriveEncryptionKey(auth.secret) : null;
+    const outgoing = changedSince(transactions);
+    const request: SyncRequest = {
+      transactions: auth?.encrypt && key ? await Promise.all(outgoing.map(t => sealTransaction(t, key))) : outgoing,
+      settlements: changedSince(settlements),
+      recurring: changedSince(recurring),
+      // Untouched built-in categories have no timestamp, so they only go up with the first full sync
+      categories: changedSince(categories),
+      goals: changedSince(goals),
+      goalContributions: changedSince(goalContributions),
+      budgets,
+      settlementRules,
+      partnerProfiles,
+      household,
+      categorization,
+      since: since || null,
+      action: 'sync'
+    };
+    const data = await backend.exchange(auth?.secret ? await signRequest(request, auth.secret) : request);
     
     if (data.status === "error") {
       throw new Error(data.message || "Server error during sync");
     }
 
-    // Safety check: If cloud is empty but we have local data, ask before overwriting
-    if (transactions.length > 0 && (!data.transactions || data.transactions.length === 0)) {
-      const confirmWipe = confirm("Cloud storage is empty. Do you want to WIPE your local data to match the cloud? Click 'Cancel' to keep your local data and try syncing again later.");
-      if (!confirmWipe) {
-        return { transactions, budgets }; // Keep local
-      }
-    }
-
-    return data;
+    return {
+      transactions: (await Promise.all(asList(data.transactions).map(t => openIfSealed(t, key)))).map(normalizeTransaction),
+      settlements: asList(data.settlements).map(normalizeSettlement),
+      recurring: asList(data.recurring).map(normalizeRecurring),
+      categories: asList(data.categories).map(normalizeCategory),
+      goals: asList(data.goals).map(normalizeGoal),
+      goalContributions: asList(data.goalContributions).map(normalizeGoalContribution),
+      budgets: mergeBudgets(budgets, normalizeBudgets(data.budgets)),
+      settlementRules: pickWinner(settlementRules, readSetting(data.settlementRules, settlementRules)) || settlementRules,
+      partnerProfiles: pickWinner(partnerProfiles, readSetting(data.partnerProfiles, partnerProfiles)) || partnerProfiles,
+      household: pickWinner(household, readSetting(data.household, household)) || household,
+      categorization: pickWinner(categorization, readSetting(data.categorization, categorization)) || categorization,
+      syncedAt,
+    };
   } catch (error) {
     console.error("DuoSpend Sync Error:", error);
     throw error;
   }
 };
 
-export const GOOGLE_APPS_SCRIPT_CODE = `/** DuoSpend Cloud Sync Script v4.6 (Atomic & Safe) **/
+/** The Apps Script with this household's secret and currency filled in, ready to paste into the script editor. */
+export const googleAppsScriptCode = (secret: string, currency: string): string => `/** DuoSpend Cloud Sync Script v6.2 (Record Merge + Split Rules + Settle Up + Profiles + Categories + Recurring + Goals + Timezone + Versioned Budgets + Signed Requests + Multi-Currency + Receipt Links + Category Rules) **/
+// Must match the household secret in the app's Setup tab on both phones
+const SYNC_SECRET = ${JSON.stringify(secret)};
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+const TX_HEADERS = ["ID", "Date", "Description", "User", "Total Amount", "SplitsJSON", "Updated At", "Deleted", "SplitRuleJSON", "Recurring ID", "Cipher", "Currency", "Original Amount", "Exchange Rate", "Receipt ID"];
+const RECURRING_HEADERS = ["ID", "Description", "User", "SplitsJSON", "RuleJSON", "Paused", "SplitRuleJSON", "Updated At", "Deleted"];
+const SETTLEMENT_HEADERS = ["ID", "Date", "Payer", "Payee", "Amount", "Note", "Updated At", "Deleted"];
+const CATEGORY_HEADERS = ["ID", "Name", "Icon", "Color", "Archived", "AliasesJSON", "Updated At", "Deleted"];
+const GOAL_HEADERS = ["ID", "Name", "Icon", "Target", "Target Date", "Updated At", "Deleted"];
+const BUDGET_HEADERS = ["Category", "Monthly Limit", "BudgetJSON", "Updated At"];
+const CONTRIBUTION_HEADERS = ["ID", "Goal ID", "Date", "User", "Amount", "Note", "Updated At", "Deleted"];
+
 function doPost(e) {
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
   const ss = SpreadsheetApp.getActiveSpreadsheet();
   const txSheet = ss.getSheetByName("Transactions") || ss.insertSheet("Transactions");
   const budgetSheet = ss.getSheetByName("Budgets") || ss.insertSheet("Budgets");
+  const settingsSheet = ss.getSheetByName("Settings") || ss.insertSheet("Settings");
+  const settlementSheet = ss.getSheetByName("Settlements") || ss.insertSheet("Settlements");
+  const categorySheet = ss.getSheetByName("Categories") || ss.insertSheet("Categories");
+  const recurringSheet = ss.getSheetByName("Recurring") || ss.insertSheet("Recurring");
+  const goalSheet = ss.getSheetByName("Goals") || ss.insertSheet("Goals");
+  const contributionSheet = ss.getSheetByName("Goal Contributions") || ss.insertSheet("Goal Contributions");
   
   try {
-    const data = JSON.parse(e.postData.contents);
-    const txs = data.transactions;
-    const budgets = data.budgets;
+    const data = verifyRequest(JSON.parse(e.postData.contents));
     
-    // 1. Update Transactions (Only if provided and not empty)
-    if (txs && Array.isArray(txs) && txs.length > 0) {
-      txSheet.clear();
-      txSheet.appendRow(["ID", "Date", "Description", "User", "Total Amount", "SplitsJSON"]);
-      txs.forEach(t => {
-        txSheet.appendRow([t.id, t.date, t.description, t.userId, t.totalAmount, JSON.stringify(t.splits)]);
-      });
-      updateYearlySummarySheets(ss, txs);
+    // 1. Merge incoming changes into the stored rows by ID (never drops records the client didn't send)
+    const storedCategories = readCategories(categorySheet);
+    const categoriesChanged = mergeInto(storedCategories, data.categories, normalizeCategory);
+    const allCategories = Object.keys(storedCategories).map(id => storedCategories[id]);
+    if (categoriesChanged) writeCategories(categorySheet, allCategories);
+
+    const stored = readTransactions(txSheet, fallbackCategoryName(allCategories));
+    const changed = mergeInto(stored, data.transactions, normalizeTransaction);
+    const all = Object.keys(stored).map(id => stored[id]);
+    if (changed) writeTransactions(txSheet, all);
+
+    const storedSettlements = readSettlements(settlementSheet);
+    const settlementsChanged = mergeInto(storedSettlements, data.settlements, normalizeSettlement);
+    const allSettlements = Object.keys(storedSettlements).map(id => storedSettlements[id]);
+    if (settlementsChanged) writeSettlements(settlementSheet, allSettlements);
+
+    const storedRecurring = readRecurring(recurringSheet);
+    const recurringChanged = mergeInto(storedRecurring, data.recurring, normalizeRecurring);
+    const allRecurring = Object.keys(storedRecurring).map(id => storedRecurring[id]);
+    if (recurringChanged) writeRecurring(recurringSheet, allRecurring);
+
+    const storedGoals = readRows(goalSheet, row => normalizeGoal({
+      id: row[0], name: row[1], icon: row[2], target: row[3], targetDate: row[4], updatedAt: row[5], deleted: row[6]
+    }));
+    const goalsChanged = mergeInto(storedGoals, data.goals, normalizeGoal);
+    const allGoals = Object.keys(storedGoals).map(id => storedGoals[id]);
+    if (goalsChanged) writeRows(goalSheet, GOAL_HEADERS, allGoals.map(g => [
+      g.id, g.name, g.icon, g.target, g.targetDate || "", g.updatedAt, g.deleted ? "TRUE" : ""
+    ]));
+
+    const storedContributions = readRows(contributionSheet, row => normalizeGoalContribution({
+      id: row[0], goalId: row[1], date: row[2], userId: row[3], amount: row[4], note: row[5], updatedAt: row[6], deleted: row[7]
+    }));
+    const contributionsChanged = mergeInto(storedContributions, data.goalContributions, normalizeGoalContribution);
+    const allContributions = Object.keys(storedContributions).map(id => storedContributions[id]);
+    if (contributionsChanged) writeRows(contributionSheet, CONTRIBUTION_HEADERS, allContributions.map(c => [
+      c.id, c.goalId, c.date, c.userId, c.amount, c.note, c.updatedAt, c.deleted ? "TRUE" : ""
+    ]));
+
+    // Shared settings (split rules, partner profiles, household, category rules) are whole objects: the newer updatedAt wins
+    const settings = readSettings(settingsSheet);
+    let settingsChanged = false;
+    ["settlementRules", "partnerProfiles", "household", "categorization"].forEach(key => {
+      if (data[key] && pickWinner(settings[key], data[key]) === data[key]) {
+        settings[key] = data[key];
+        settingsChanged = true;
+      }
+    });
+    if (settingsChanged) writeSettings(settingsSheet, settings);
+    if (changed || settingsChanged || settlementsChanged) {
+      // Encrypted rows carry no readable amounts, so they stay out of the summaries
+      updateYearlySummarySheets(ss, all.filter(t => !t.deleted && !t.cipher), settings, allSettlements.filter(p => !p.deleted));
     }
 
-    // 2. Update Budgets
-    if (budgets && typeof budgets === 'object' && Object.keys(budgets).length > 0) {
-      budgetSheet.clear();
-      budgetSheet.appendRow(["Category", "Monthly Limit"]);
-      Object.entries(budgets).forEach(([cat, amt]) => {
-        budgetSheet.appendRow([cat, amt]);
+    // 2. Budgets merge per category: the newer edit wins, like every other shared setting
+    const storedBudgets = readRows(budgetSheet, row => {
+      try { return normalizeBudget({ versions: JSON.parse(row[2]).versions, updatedAt: row[3] }); } catch (e) { return normalizeBudget(row[1]); }
+    });
+    let budgetsChanged = false;
+    if (data.budgets && typeof data.budgets === 'object') {
+      Object.keys(data.budgets).forEach(cat => {
+        const next = normalizeBudget(data.budgets[cat]);
+        if (pickWinner(storedBudgets[cat], next) === next) {
+          storedBudgets[cat] = next;
+          budgetsChanged = true;
+        }
       });
     }
+    if (budgetsChanged) writeRows(budgetSheet, BUDGET_HEADERS, Object.keys(storedBudgets).map(cat => {
+      const b = storedBudgets[cat];
+      const latest = b.versions[b.versions.length - 1];
+      return [cat, latest ? monthlyLimitOf(latest) : "", JSON.stringify({ versions: b.versions }), b.updatedAt];
+    }));
 
-    // 3. Return the FULL updated state immediately (Atomic Response)
+    // 3. Return the FULL merged state, tombstones included, so clients can apply deletes
     const result = { 
       status: "success",
-      transactions: [], 
-      budgets: {} 
+      transactions: all, 
+      settlements: allSettlements,
+      recurring: allRecurring,
+      categories: allCategories,
+      goals: allGoals,
+      goalContributions: allContributions,
+      budgets: storedBudgets,
+      settlementRules: settings.settlementRules || null,
+      partnerProfiles: settings.partnerProfiles || null,
+      household: settings.household || null,
+      categorization: settings.categorization || null
     };
-    
-    const txRange = txSheet.getDataRange();
-    if (txRange.getLastRow() > 1) {
-      const txRows = txRange.getValues();
-      for (let i = 1; i < txRows.length; i++) {
-        if (!txRows[i][0]) continue;
-        let splits = [];
-        try { splits = JSON.parse(txRows[i][5]); } catch (e) { splits = [{ categoryName: 'Other', amount: Number(txRows[i][4]) }]; }
-        result.transactions.push({ 
-          id: String(txRows[i][0]), 
-          date: txRows[i][1], 
-          description: txRows[i][2], 
-          userId: txRows[i][3], 
-          totalAmount: Number(txRows[i][4]), 
-          splits: splits 
-        });
-      }
-    }
 
-    const bRange = budgetSheet.getDataRange();
-    if (bRange.getLastRow() > 1) {
-      const bRows = bRange.getValues();
-      for (let j = 1; j < bRows.length; j++) {
-        if (bRows[j][0]) result.budgets[bRows[j][0]] = Number(bRows[j][1]);
-      }
-    }
-    
     return ContentService.createTextOutput(JSON.stringify(result)).setMimeType(ContentService.MimeType.JSON);
   } catch (err) {
     return ContentService.createTextOutput(JSON.stringify({ status: "error", message: err.toString() })).setMimeType(ContentService.MimeType.JSON);
+  } finally {
+    lock.releaseLock();
   }
 }
 
+// Data only goes out in answer to a signed POST; a plain visit to the URL just confirms the script is live
 function doGet() {
-  return doPost({ postData: { contents: JSON.stringify({ transactions: [], budgets: {} }) } });
+  return ContentService.createTextOutput(JSON.stringify({ status: "ok", service: "duospend-sync" })).setMimeType(ContentService.MimeType.JSON);
+}
+
+// Must match verifyEnvelope in utils/syncAuth.ts: HMAC over ts.nonce.body, a fresh timestamp and an unseen nonce
+function verifyRequest(envelope) {
+  if (!SYNC_SECRET) throw new Error("SYNC_SECRET is not set; copy the script again from the app's Setup tab");
+  if (!envelope || envelope.signed !== true || typeof envelope.body !== "string" || typeof envelope.sig !== "string") {
+    throw new Error("Unsigned request rejected");
+  }
+  const ts = Number(envelope.ts);
+  if (!ts || Math.abs(Date.now() - ts) > REPLAY_WINDOW_MS) throw new Error("Request expired; check the phone's clock");
+  const message = envelope.ts + "." + envelope.nonce + "." + envelope.body;
+  const expected = Utilities.base64Encode(Utilities.computeHmacSha256Signature(message, SYNC_SECRET, Utilities.Charset.UTF_8));
+  if (!sameText(expected, envelope.sig)) throw new Error("Bad signature; check the household secret");
+  // The script lock is held, so check-then-put can't race another request
+  const cache = CacheService.getScriptCache();
+  const nonceKey = "nonce:" + envelope.nonce;
+  if (cache.get(nonceKey)) throw new Error("Replayed request rejected");
+  cache.put(nonceKey, "1", Math.ceil(REPLAY_WINDOW_MS * 2 / 1000));
+  return JSON.parse(envelope.body);
+}
+
+// Compares every character so the time taken doesn't reveal how much of a forged signature was right
+function sameText(a, b) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function toText(v) {
+  return v instanceof Date ? v.toISOString() : String(v === null || v === undefined ? "" : v);
+}
+
+// Applies incoming records that win the conflict rule; returns true if anything changed
+function mergeInto(stored, incoming, normalize) {
+  let changed = false;
+  if (!incoming || !Array.isArray(incoming)) return changed;
+  incoming.forEach(r => {
+    if (!r || !r.id) return;
+    const id = String(r.id);
+    const next = normalize(r);
+    if (pickWinner(stored[id], next) === next) {
+      stored[id] = next;
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+function normalizeTransaction(t) {
+  // End-to-end encrypted rows: only what the merge needs is readable
+  if (t.cipher) {
+    const sealed = { id: String(t.id), cipher: String(t.cipher), updatedAt: toText(t.updatedAt) };
+    if (t.deleted === true || String(t.deleted).toUpperCase() === "TRUE") sealed.deleted = true;
+    return sealed;
+  }
+  const r = {
+    id: String(t.id),
+    date: toText(t.date),
+    description: String(t.description || ""),
+    userId: t.userId,
+    totalAmount: Number(t.totalAmount) || 0,
+    splits: Array.isArray(t.splits) ? t.splits : [],
+    updatedAt: toText(t.updatedAt || t.date)
+  };
+  if (t.deleted === true || String(t.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  if (t.splitRule) r.splitRule = t.splitRule;
+  if (t.recurringId) r.recurringId = String(t.recurringId);
+  // Foreign charges: the amounts above are already in the base currency
+  if (t.currency) {
+    r.currency = String(t.currency);
+    r.originalAmount = Number(t.originalAmount) || 0;
+    r.exchangeRate = Number(t.exchangeRate) || 0;
+  }
+  // Only the link; the photo itself stays on the phone that took it
+  if (t.receiptId) r.receiptId = String(t.receiptId);
+  return r;
+}
+
+// Must match pickWinner in utils/sync.ts: newer updatedAt, then tombstone, then serialized order
+function pickWinner(a, b) {
+  if (!a) return b;
+  if (!b) return a;
+  const aTime = a.updatedAt || "";
+  const bTime = b.updatedAt || "";
+  if (aTime !== bTime) return aTime > bTime ? a : b;
+  if (!!a.deleted !== !!b.deleted) return a.deleted ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+}
+
+// Unreadable splits land in a category the app actually shows instead of an orphan name
+function fallbackCategoryName(categories) {
+  const active = categories.filter(c => !c.deleted && !c.archived);
+  return active.length > 0 ? active[0].name : "One time things";
+}
+
+function readTransactions(txSheet, fallbackCategory) {
+  const stored = {};
+  const txRange = txSheet.getDataRange();
+  if (txRange.getLastRow() <= 1) return stored;
+  const txRows = txRange.getValues();
+  for (let i = 1; i < txRows.length; i++) {
+    const row = txRows[i];
+    if (!row[0]) continue;
+    if (row[10]) {
+      stored[String(row[0])] = normalizeTransaction({ id: row[0], cipher: row[10], updatedAt: row[6], deleted: row[7] });
+      continue;
+    }
+    let splits = [];
+    try { splits = JSON.parse(row[5]); } catch (e) { splits = [{ categoryName: fallbackCategory, amount: Number(row[4]) }]; }
+    let splitRule = null;
+    try { splitRule = row[8] ? JSON.parse(row[8]) : null; } catch (e) { splitRule = null; }
+    stored[String(row[0])] = normalizeTransaction({
+      id: row[0], date: row[1], description: row[2], userId: row[3], totalAmount: row[4], splits: splits,
+      updatedAt: row[6], deleted: row[7], splitRule: splitRule, recurringId: row[9],
+      currency: row[11], originalAmount: row[12], exchangeRate: row[13], receiptId: row[14]
+    });
+  }
+  return stored;
+}
+
+function writeTransactions(txSheet, txs) {
+  const rows = [TX_HEADERS].concat(txs.map(t => t.cipher ? [
+    t.id, "", "(encrypted)", "", "", "[]", t.updatedAt, t.deleted ? "TRUE" : "", "", "", t.cipher, "", "", "", ""
+  ] : [
+    t.id, t.date, t.description, t.userId, t.totalAmount, JSON.stringify(t.splits), t.updatedAt, t.deleted ? "TRUE" : "",
+    t.splitRule ? JSON.stringify(t.splitRule) : "", t.recurringId || "", "",
+    t.currency || "", t.currency ? t.originalAmount : "", t.currency ? t.exchangeRate : "", t.receiptId || ""
+  ]));
+  txSheet.clear();
+  // Plain text keeps ISO timestamps exact instead of letting Sheets coerce them into dates
+  const range = txSheet.getRange(1, 1, rows.length, TX_HEADERS.length);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+function normalizeSettlement(p) {
+  const r = {
+    id: String(p.id),
+    date: toText(p.date),
+    payer: p.payer,
+    payee: p.payee,
+    amount: Number(p.amount) || 0,
+    note: String(p.note || ""),
+    updatedAt: toText(p.updatedAt || p.date)
+  };
+  if (p.deleted === true || String(p.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  return r;
+}
+
+function readSettlements(settlementSheet) {
+  const stored = {};
+  const range = settlementSheet.getDataRange();
+  if (range.getLastRow() <= 1) return stored;
+  const rows = range.getValues();
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row[0]) continue;
+    stored[String(row[0])] = normalizeSettlement({
+      id: row[0], date: row[1], payer: row[2], payee: row[3], amount: row[4], note: row[5], updatedAt: row[6], deleted: row[7]
+    });
+  }
+  return stored;
+}
+
+function writeSettlements(settlementSheet, settlements) {
+  const rows = [SETTLEMENT_HEADERS].concat(settlements.map(p => [
+    p.id, p.date, p.payer, p.payee, p.amount, p.note, p.updatedAt, p.deleted ? "TRUE" : ""
+  ]));
+  settlementSheet.clear();
+  const range = settlementSheet.getRange(1, 1, rows.length, SETTLEMENT_HEADERS.length);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+function normalizeRecurring(t) {
+  const r = {
+    id: String(t.id),
+    description: String(t.description || ""),
+    userId: t.userId,
+    splits: Array.isArray(t.splits) ? t.splits : [],
+    rule: t.rule || {},
+    updatedAt: toText(t.updatedAt)
+  };
+  if (t.paused === true || String(t.paused).toUpperCase() === "TRUE") r.paused = true;
+  if (t.splitRule) r.splitRule = t.splitRule;
+  if (t.deleted === true || String(t.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  return r;
+}
+
+function readRecurring(recurringSheet) {
+  const stored = {};
+  const range = recurringSheet.getDataRange();
+  if (range.getLastRow() <= 1) return stored;
+  const rows = range.getValues();
+  const parse = (v, fallback) => { try { return v ? JSON.parse(v) : fallback; } catch (e) { return fallback; } };
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row[0]) continue;
+    stored[String(row[0])] = normalizeRecurring({
+      id: row[0], description: row[1], userId: row[2], splits: parse(row[3], []), rule: parse(row[4], {}),
+      paused: row[5], splitRule: parse(row[6], null), updatedAt: row[7], deleted: row[8]
+    });
+  }
+  return stored;
+}
+
+function writeRecurring(recurringSheet, templates) {
+  const rows = [RECURRING_HEADERS].concat(templates.map(t => [
+    t.id, t.description, t.userId, JSON.stringify(t.splits), JSON.stringify(t.rule), t.paused ? "TRUE" : "",
+    t.splitRule ? JSON.stringify(t.splitRule) : "", t.updatedAt, t.deleted ? "TRUE" : ""
+  ]));
+  recurringSheet.clear();
+  const range = recurringSheet.getRange(1, 1, rows.length, RECURRING_HEADERS.length);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+// Old clients send a plain monthly number; newer ones send { versions, updatedAt }
+function normalizeBudget(value) {
+  if (value && Array.isArray(value.versions)) return { versions: value.versions, updatedAt: toText(value.updatedAt) };
+  return { versions: [{ from: "0000-00", limit: Number(value) || 0, periodicity: "monthly", rollover: false }], updatedAt: "" };
+}
+
+// Human-readable column only; the app reads BudgetJSON
+function monthlyLimitOf(v) {
+  const allowances = Object.keys(v.allowances || {}).map(k => Number(v.allowances[k]) || 0);
+  const limit = allowances.length > 0 ? allowances.reduce((a, b) => a + b, 0) : v.limit;
+  if (limit === null || limit === undefined) return "";
+  return limit / (v.periodicity === "annual" ? 12 : v.periodicity === "quarterly" ? 3 : 1);
+}
+
+function normalizeGoal(g) {
+  const r = {
+    id: String(g.id),
+    name: String(g.name || ""),
+    icon: String(g.icon || ""),
+    target: Number(g.target) || 0,
+    updatedAt: toText(g.updatedAt)
+  };
+  if (g.targetDate) r.targetDate = toText(g.targetDate);
+  if (g.deleted === true || String(g.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  return r;
+}
+
+function normalizeGoalContribution(c) {
+  const r = {
+    id: String(c.id),
+    goalId: String(c.goalId),
+    date: toText(c.date),
+    userId: c.userId,
+    amount: Number(c.amount) || 0,
+    note: String(c.note || ""),
+    updatedAt: toText(c.updatedAt || c.date)
+  };
+  if (c.deleted === true || String(c.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  return r;
 }
 
-function updateYearlySummarySheets(ss, txs) {
+// Generic sheet helpers for record types that need no special parsing
+function readRows(sheet, toRecord) {
+  const stored = {};
+  const range = sheet.getDataRange();
+  if (range.getLastRow() <= 1) return stored;
+  const rows = range.getValues();
+  for (let i = 1; i < rows.length; i++) {
+    if (!rows[i][0]) continue;
+    stored[String(rows[i][0])] = toRecord(rows[i]);
+  }
+  return stored;
+}
+
+function writeRows(sheet, headers, values) {
+  const rows = [headers].concat(values);
+  sheet.clear();
+  const range = sheet.getRange(1, 1, rows.length, headers.length);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+function normalizeCategory(c) {
+  const r = {
+    id: String(c.id),
+    name: String(c.name || ""),
+    icon: String(c.icon || ""),
+    color: String(c.color || ""),
+    aliases: Array.isArray(c.aliases) ? c.aliases : [],
+    updatedAt: toText(c.updatedAt)
+  };
+  if (c.archived === true || String(c.archived).toUpperCase() === "TRUE") r.archived = true;
+  if (c.deleted === true || String(c.deleted).toUpperCase() === "TRUE") r.deleted = true;
+  return r;
+}
+
+function readCategories(categorySheet) {
+  const stored = {};
+  const range = categorySheet.getDataRange();
+  if (range.getLastRow() <= 1) return stored;
+  const rows = range.getValues();
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row[0]) continue;
+    let aliases = [];
+    try { aliases = row[5] ? JSON.parse(row[5]) : []; } catch (e) { aliases = []; }
+    stored[String(row[0])] = normalizeCategory({
+      id: row[0], name: row[1], icon: row[2], color: row[3], archived: row[4], aliases: aliases, updatedAt: row[6], deleted: row[7]
+    });
+  }
+  return stored;
+}
+
+function writeCategories(categorySheet, categories) {
+  const rows = [CATEGORY_HEADERS].concat(categories.map(c => [
+    c.id, c.name, c.icon, c.color, c.archived ? "TRUE" : "", JSON.stringify(c.aliases || []), c.updatedAt, c.deleted ? "TRUE" : ""
+  ]));
+  categorySheet.clear();
+  const range = categorySheet.getRange(1, 1, rows.length, CATEGORY_HEADERS.length);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+function readSettings(settingsSheet) {
+  const settings = {};
+  const range = settingsSheet.getDataRange();
+  if (range.getLastRow() <= 1) return settings;
+  const rows = range.getValues();
+  for (let i = 1; i < rows.length; i++) {
+    if (!rows[i][0]) continue;
+    try { settings[rows[i][0]] = JSON.parse(rows[i][1]); } catch (e) {}
+  }
+  return settings;
+}
+
+function writeSettings(settingsSheet, settings) {
+  const rows = [["Key", "ValueJSON"]].concat(Object.keys(settings).map(k => [k, JSON.stringify(settings[k])]));
+  settingsSheet.clear();
+  const range = settingsSheet.getRange(1, 1, rows.length, 2);
+  range.setNumberFormat("@");
+  range.setValues(rows);
+}
+
+function partnerName(profiles, role, fallback) {
+  return profiles && profiles[role] && profiles[role].name ? profiles[role].name : fallback;
+}
+
+// Must match effectiveRules in utils/settlement.ts: income ratio when enabled and both incomes are set
+function defaultShare(rules, profiles) {
+  const r = rules || {};
+  if (r.useIncomeRatio && profiles) {
+    const p1 = Number(profiles.PARTNER_1 && profiles.PARTNER_1.monthlyIncome) || 0;
+    const p2 = Number(profiles.PARTNER_2 && profiles.PARTNER_2.monthlyIncome) || 0;
+    if (p1 > 0 && p2 > 0) return p1 / (p1 + p2);
+  }
+  return r.defaultPartner1Share === undefined ? 0.45 : r.defaultPartner1Share;
+}
+
+// Must match computeSettlement in utils/settlement.ts: transaction rule, then category rule, then default share
+function partner1ShareOf(t, s, rules, share) {
+  const r = rules || {};
+  const rule = t.splitRule || (r.categoryRules || {})[s.categoryName] || { kind: "shared", partner1Share: share };
+  const amount = Number(s.amount) || 0;
+  if (rule.kind === "personal") return t.userId === "PARTNER_1" ? amount : 0;
+  return amount * Math.min(1, Math.max(0, Number(rule.partner1Share) || 0));
+}
+
+// Must match dayKeyIn in utils/period.ts: UTC-midnight values are date-only picks and keep their day
+function localMonth(iso, timeZone) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return null;
+  const key = /T00:00:00(\\.000)?Z$/.test(String(iso)) ? d.toISOString().slice(0, 7) : Utilities.formatDate(d, timeZone, "yyyy-MM");
+  return { year: Number(key.slice(0, 4)), month: Number(key.slice(5, 7)) - 1 };
+}
+
+function updateYearlySummarySheets(ss, txs, settings, settlements) {
+  const rules = settings.settlementRules;
+  const share = defaultShare(rules, settings.partnerProfiles);
+  const p1 = partnerName(settings.partnerProfiles, "PARTNER_1", "Partner 1");
+  const p2 = partnerName(settings.partnerProfiles, "PARTNER_2", "Partner 2");
   const yearMap = {}; 
   const userMonthMap = {}; 
+  const shareMonthMap = {};
+  const settledMonthMap = {};
   const allCategories = new Set();
+
+  const timeZone = (settings.household && settings.household.timeZone) || "UTC";
+
+  (settlements || []).forEach(p => {
+    const m = localMonth(p.date, timeZone);
+    if (!m) return;
+    const year = m.year;
+    if (!settledMonthMap[year]) settledMonthMap[year] = new Array(12).fill(0);
+    settledMonthMap[year][m.month] += p.payer === "PARTNER_1" ? p.amount : -p.amount;
+  });
   
   txs.forEach(t => {
-    const d = new Date(t.date);
-    if (isNaN(d.getTime())) return;
-    const year = d.getUTCFullYear();
-    const monthIdx = d.getUTCMonth(); 
+    const m = localMonth(t.date, timeZone);
+    if (!m) return;
+    const year = m.year;
+    const monthIdx = m.month; 
     
     if (!yearMap[year]) yearMap[year] = {};
     if (!userMonthMap[year]) {
       userMonthMap[year] = { "PARTNER_1": new Array(12).fill(0), "PARTNER_2": new Array(12).fill(0) };
+      shareMonthMap[year] = new Array(12).fill(0);
     }
     
     userMonthMap[year][t.userId][monthIdx] += Number(t.totalAmount) || 0;
 
     t.splits.forEach(s => {
+      shareMonthMap[year][monthIdx] += partner1ShareOf(t, s, rules, share);
       const cat = s.categoryName;
       allCategories.add(cat);
       if (!yearMap[year][cat]) yearMap[year][cat] = new Array(12).fill(0);
@@ -160,17 +921,27 @@ function updateYearlySummarySheets(ss, txs) {
     totalRow.push(totalRow.slice(1).reduce((a, b) => a + b, 0));
     sheet.appendRow(totalRow);
 
-    const tracyPaidRow = ["Tracy Paid (Actual)"];
-    const tracyOwesRow = ["Tracy owes"];
+    const p1PaidRow = [p1 + " Paid (Actual)"];
+    const p1ShareRow = [p1 + " Share (Rules)"];
+    const p1OwesRow = [p1 + " owes " + p2 + " (negative = " + p2 + " owes " + p1 + ")"];
+    const settledRow = ["Settled Up (" + p1 + " to " + p2 + ", net)"];
     for (let m = 0; m < 12; m++) {
-      const monthTotal = totalRow[m + 1];
-      const tracyPaid = userMonthMap[year]["PARTNER_1"][m];
-      tracyPaidRow.push(tracyPaid);
-      tracyOwesRow.push((monthTotal - tracyPaid) * 0.45);
+      const p1Paid = userMonthMap[year]["PARTNER_1"][m];
+      const p1Share = shareMonthMap[year][m];
+      p1PaidRow.push(p1Paid);
+      p1ShareRow.push(p1Share);
+      p1OwesRow.push(p1Share - p1Paid);
+      settledRow.push(settledMonthMap[year] ? settledMonthMap[year][m] : 0);
     }
-    sheet.appendRow(tracyPaidRow);
-    sheet.appendRow(tracyOwesRow);
-    sheet.getRange(2, 2, sheet.getLastRow(), sheet.getLastColumn()).setNumberFormat("$#,##0.00");
+    p1PaidRow.push(p1PaidRow.slice(1).reduce((a, b) => a + b, 0));
+    p1ShareRow.push(p1ShareRow.slice(1).reduce((a, b) => a + b, 0));
+    p1OwesRow.push(p1OwesRow.slice(1).reduce((a, b) => a + b, 0));
+    settledRow.push(settledRow.slice(1).reduce((a, b) => a + b, 0));
+    sheet.appendRow(p1PaidRow);
+    sheet.appendRow(p1ShareRow);
+    sheet.appendRow(p1OwesRow);
+    sheet.appendRow(settledRow);
+    sheet.getRange(2, 2, sheet.getLastRow(), sheet.getLastColumn()).setNumberFormat(${JSON.stringify(sheetNumberFormat(currency))});
   });
 }
 `;
\ No newline at end of file
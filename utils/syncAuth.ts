@@ -0,0 +1,104 @@
+import { Transaction } from '../types';
+import { asFields } from './fields';
+
+// Signed requests older (or further in the future) than this are refused, so a captured one can't be replayed later
+export const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * A sync request wrapped with an HMAC-SHA256 over `${ts}.${nonce}.${body}`, keyed with the
+ * household secret. The server checks the signature, the timestamp and that the nonce is new.
+ */
+export interface SignedEnvelope {
+  action: 'sync';
+  signed: true;
+  ts: number;
+  nonce: string;
+  body: string; // The JSON-encoded SyncRequest, signed exactly as sent
+  sig: string; // base64
+}
+
+/** A transaction as stored on the server when end-to-end encryption is on: only merge metadata is readable. */
+export interface SealedTransaction {
+  id: string;
+  updatedAt: string;
+  deleted?: boolean;
+  cipher: string; // base64 IV + "." + base64 AES-GCM ciphertext of the full transaction
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const randomToken = (bytes: number): string =>
+  toBase64(crypto.getRandomValues(new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** A fresh household secret, typed (or pasted) into both phones and the script. */
+export const generateSecret = (): string => randomToken(24);
+
+export const isSignedEnvelope = (value: unknown): value is SignedEnvelope => {
+  const e = asFields(value);
+  return e.signed === true && typeof e.body === 'string' && typeof e.sig === 'string';
+};
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const signedMessage = (ts: number, nonce: string, body: string) => encoder.encode(`${ts}.${nonce}.${body}`);
+
+export const signRequest = async (request: object, secret: string, now: number = Date.now()): Promise<SignedEnvelope> => {
+  const nonce = randomToken(16);
+  const body = JSON.stringify(request);
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), signedMessage(now, nonce, body));
+  return { action: 'sync', signed: true, ts: now, nonce, body, sig: toBase64(signature) };
+};
+
+/**
+ * Server-side check, mirrored by the Apps Script and the Node server. `seenNonces` must outlive
+ * the replay window. Returns the parsed request or throws with the reason it was refused.
+ */
+export const verifyEnvelope = async (envelope: unknown, secret: string, seenNonces: Set<string>, now: number = Date.now()): Promise<unknown> => {
+  if (!isSignedEnvelope(envelope)) throw new Error("Unsigned request rejected");
+  if (!Number.isFinite(envelope.ts) || Math.abs(now - envelope.ts) > REPLAY_WINDOW_MS) throw new Error("Request expired; check the phone's clock");
+  const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64(envelope.sig), signedMessage(envelope.ts, envelope.nonce, envelope.body));
+  if (!valid) throw new Error("Bad signature; check the household secret");
+  if (seenNonces.has(envelope.nonce)) throw new Error("Replayed request rejected");
+  seenNonces.add(envelope.nonce);
+  return JSON.parse(envelope.body);
+};
+
+// A separate key from the HMAC one, derived from the same secret; the server never sees it
+export const deriveEncryptionKey = async (secret: string): Promise<CryptoKey> => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`duospend-e2e:${secret}`));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+};
+
+export const isSealed = (t: unknown): t is SealedTransaction => {
+  const cipher = asFields(t).cipher;
+  return typeof cipher === 'string' && cipher.length > 0;
+};
+
+export const sealTransaction = async (t: Transaction, key: CryptoKey): Promise<SealedTransaction> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  // The id is bound as associated data so the server can't swap ciphertexts between records
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(t.id) }, key, encoder.encode(JSON.stringify(t)));
+  return { id: t.id, updatedAt: t.updatedAt, deleted: t.deleted || undefined, cipher: `${toBase64(iv)}.${toBase64(cipher)}` };
+};
+
+export const openTransaction = async (sealed: SealedTransaction, key: CryptoKey): Promise<unknown> => {
+  const [iv, data] = sealed.cipher.split('.');
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(String(sealed.id)) }, key, fromBase64(data));
+  return JSON.parse(decoder.decode(plain));
+};
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PartnerProfiles, Transaction, UserRole } from '../types';
+import { SyncAuth, SyncPayload, mergeRecords, performSync, tombstone } from './sync';
+import { SyncBackend, SyncRequest, createMemoryBackend } from './syncBackend';
+import { signRequest } from './syncAuth';
+import { DEFAULT_SETTLEMENT_RULES } from './settlement';
+import { DEFAULT_CATEGORIZATION } from './categorize';
+
+const SECRET = 'correct-horse-battery-staple';
+
+const PROFILES: PartnerProfiles = {
+  [UserRole.PARTNER_1]: { name: 'Tracy', color: '#6366f1', avatar: '🦊' },
+  [UserRole.PARTNER_2]: { name: 'Trish', color: '#f43f5e', avatar: '🐼' },
+  updatedAt: '',
+};
+
+const phone = (transactions: Transaction[] = []): SyncPayload => ({
+  transactions, settlements: [], recurring: [], categories: [], goals: [], goalContributions: [], budgets: {},
+  settlementRules: DEFAULT_SETTLEMENT_RULES,
+  partnerProfiles: PROFILES,
+  household: { timeZone: 'UTC', baseCurrency: 'USD', exchangeRates: [], updatedAt: '' },
+  categorization: DEFAULT_CATEGORIZATION,
+});
+
+const expense = (id: string, description: string, updatedAt = '2026-10-01T10:00:00.000Z'): Transaction => ({
+  id, updatedAt, description, date: '2026-10-01T00:00:00.000Z', userId: UserRole.PARTNER_1,
+  totalAmount: 12, splits: [{ categoryName: 'Food', amount: 12 }],
+});
+
+/** One full sync, merged into the phone's data the way App does it. */
+const sync = async (backend: SyncBackend, local: SyncPayload, auth?: SyncAuth, since?: string): Promise<SyncPayload> => {
+  const d = await performSync(backend, local, since, auth);
+  return {
+    ...d,
+    transactions: mergeRecords(local.transactions, d.transactions),
+    settlements: mergeRecords(local.settlements, d.settlements),
+    recurring: mergeRecords(local.recurring, d.recurring),
+    categories: mergeRecords(local.categories, d.categories),
+    goals: mergeRecords(local.goals, d.goals),
+    goalContributions: mergeRecords(local.goalContributions, d.goalContributions),
+  };
+};
+
+const live = (p: SyncPayload) => p.transactions.filter(t => !t.deleted).map(t => t.description).sort();
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  // performSync logs every failure before rethrowing it
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createMemoryBackend', () => {
+  it('gets entries logged on either phone to both', async () => {
+    const backend = createMemoryBackend();
+    let a = phone([expense('a1', 'Groceries')]);
+    let b = phone([expense('b1', 'Pizza')]);
+    a = await sync(backend, a);
+    b = await sync(backend, b);
+    a = await sync(backend, a);
+    expect(live(a)).toEqual(['Groceries', 'Pizza']);
+    expect(live(b)).toEqual(['Groceries', 'Pizza']);
+  });
+
+  it('carries a delete to the other phone as a tombstone', async () => {
+    const backend = createMemoryBackend();
+    let a = await sync(backend, phone([expense('a1', 'Groceries')]));
+    let b = await sync(backend, phone());
+    b = { ...b, transactions: b.transactions.map(t => tombstone(t)) };
+    b = await sync(backend, b);
+    a = await sync(backend, a);
+    expect(live(a)).toEqual([]);
+    expect(a.transactions[0].deleted).toBe(true);
+  });
+
+  it('keeps the newer edit of a shared setting', async () => {
+    const backend = createMemoryBackend();
+    let a = await sync(backend, phone());
+    let b = phone();
+    b = { ...b, household: { ...b.household, baseCurrency: 'EUR', updatedAt: '2026-10-02T08:00:00.000Z' } };
+    b = await sync(backend, b);
+    a = await sync(backend, a);
+    expect(a.household.baseCurrency).toBe('EUR');
+  });
+
+  it('sends only what changed since the last sync', async () => {
+    const backend = createMemoryBackend();
+    const sent: SyncRequest[] = [];
+    const watched: SyncBackend = { ...backend, exchange: request => { sent.push(request as SyncRequest); return backend.exchange(request); } };
+    const a = phone([expense('a1', 'Groceries', '2026-10-01T10:00:00.000Z'), expense('a2', 'Fuel', '2026-10-03T10:00:00.000Z')]);
+    await sync(watched, a, undefined, '2026-10-02T00:00:00.000Z');
+    expect(sent[0].transactions.map(t => t.id)).toEqual(['a2']);
+  });
+
+  it('answers with a copy, so later changes on a phone never leak into the store', async () => {
+    const backend = createMemoryBackend();
+    const a = await sync(backend, phone([expense('a1', 'Groceries')]));
+    a.transactions[0].description = 'Changed locally';
+    expect((backend.state.transactions[0] as Transaction).description).toBe('Groceries');
+  });
+});
+
+describe('createMemoryBackend with a household secret', () => {
+  it('refuses unsigned requests', async () => {
+    const backend = createMemoryBackend(SECRET);
+    await expect(sync(backend, phone([expense('a1', 'Groceries')]))).rejects.toThrow('Unsigned request rejected');
+    expect(backend.state.transactions).toEqual([]);
+  });
+
+  it('refuses a request signed with another secret', async () => {
+    const backend = createMemoryBackend(SECRET);
+    await expect(sync(backend, phone(), { secret: 'not-the-secret', encrypt: false })).rejects.toThrow('Bad signature');
+  });
+
+  it('refuses the same signed request twice', async () => {
+    const backend = createMemoryBackend(SECRET);
+    const envelope = await signRequest({ action: 'sync', since: null, transactions: [expense('a1', 'Groceries')] }, SECRET);
+    expect((await backend.exchange(envelope)).status).toBe('success');
+    expect(await backend.exchange(envelope)).toEqual({ status: 'error', message: 'Replayed request rejected' });
+  });
+
+  it('refuses a request signed outside the replay window', async () => {
+    const backend = createMemoryBackend(SECRET);
+    const envelope = await signRequest({ action: 'sync', since: null }, SECRET, Date.now() - 10 * 60 * 1000);
+    expect((await backend.exchange(envelope)).message).toMatch(/expired/);
+  });
+
+  it('stores encrypted entries as ciphertext that only the other phone can open', async () => {
+    const backend = createMemoryBackend(SECRET);
+    const auth: SyncAuth = { secret: SECRET, encrypt: true };
+    await sync(backend, phone([expense('a1', 'Anniversary gift')]), auth);
+    expect(JSON.stringify(backend.state.transactions)).not.toContain('Anniversary gift');
+
+    const b = await sync(backend, phone(), { secret: SECRET, encrypt: false });
+    expect(live(b)).toEqual(['Anniversary gift']);
+  });
+});
@@ -0,0 +1,131 @@
+import { Transaction, Settlement, CategoryDefinition, RecurringTemplate, Goal, GoalContribution, Budgets, SettlementRules, PartnerProfiles, HouseholdSettings, CategorizationSettings } from '../types';
+import { pickWinner, mergeRecords, mergeBudgets } from './sync';
+import { SignedEnvelope, SealedTransaction, isSignedEnvelope, verifyEnvelope } from './syncAuth';
+
+/** What a client sends: records changed since `since`, plus the whole-object settings. */
+export interface SyncRequest {
+  action: 'sync';
+  since: string | null;
+  transactions: (Transaction | SealedTransaction)[];
+  settlements: Settlement[];
+  recurring: RecurringTemplate[];
+  categories: CategoryDefinition[];
+  goals: Goal[];
+  goalContributions: GoalContribution[];
+  budgets: Budgets;
+  settlementRules: SettlementRules;
+  partnerProfiles: PartnerProfiles;
+  household: HouseholdSettings;
+  categorization: CategorizationSettings;
+}
+
+/**
+ * What every backend answers with: the FULL merged state, tombstones included. The fields come
+ * off the wire unchecked; performSync normalizes every one of them.
+ */
+export interface SyncResponse {
+  status: 'success' | 'error';
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Where sync requests go. Each backend stores records by id, keeps the newer `updatedAt`
+ * (see pickWinner) and returns everything it holds, so clients can merge the answer safely.
+ */
+export interface SyncBackend {
+  kind: 'sheets' | 'server' | 'memory';
+  label: string;
+  exchange: (request: SyncRequest | SignedEnvelope) => Promise<SyncResponse>;
+}
+
+const postJson = async (url: string, request: SyncRequest | SignedEnvelope): Promise<SyncResponse> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    body: JSON.stringify(request),
+    // text/plain keeps this a "simple" request, so Apps Script (which can't answer CORS preflights) accepts it
+    headers: {
+      'Content-Type': 'text/plain;charset=utf-8',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Cloud sync failed: ${response.status}`);
+  }
+  return response.json();
+};
+
+/** The Google Apps Script web app from the Setup tab, backed by a spreadsheet. */
+export const createSheetsBackend = (url: string): SyncBackend => ({
+  kind: 'sheets',
+  label: 'Google Sheets script',
+  exchange: request => postJson(url, request),
+});
+
+/** The self-hosted Node server in server/sync-server.mjs; same protocol, stored in a JSON file. */
+export const createServerBackend = (url: string): SyncBackend => ({
+  kind: 'server',
+  label: 'Self-hosted server',
+  exchange: request => postJson(url, request),
+});
+
+interface MemoryState {
+  transactions: (Transaction | SealedTransaction)[];
+  settlements: Settlement[];
+  recurring: RecurringTemplate[];
+  categories: CategoryDefinition[];
+  goals: Goal[];
+  goalContributions: GoalContribution[];
+  budgets: Budgets;
+  settlementRules: SettlementRules | null;
+  partnerProfiles: PartnerProfiles | null;
+  household: HouseholdSettings | null;
+  categorization: CategorizationSettings | null;
+}
+
+/**
+ * A backend that lives in memory, for exercising sync (several "phones" against one store)
+ * without any network. Requests and responses go through JSON like they would over HTTP.
+ * With a secret it refuses unsigned and replayed requests, like the script does.
+ */
+export const createMemoryBackend = (secret?: string): SyncBackend & { state: MemoryState } => {
+  const seenNonces = new Set<string>();
+  const state: MemoryState = {
+    transactions: [], settlements: [], recurring: [], categories: [], goals: [], goalContributions: [],
+    budgets: {}, settlementRules: null, partnerProfiles: null, household: null, categorization: null,
+  };
+  return {
+    kind: 'memory',
+    label: 'In-memory',
+    state,
+    exchange: async request => {
+      const wire: unknown = JSON.parse(JSON.stringify(request));
+      let data: SyncRequest;
+      try {
+        // Only our own client talks to this store, so what it sent is taken to be a SyncRequest
+        data = (secret ? await verifyEnvelope(wire, secret, seenNonces) : isSignedEnvelope(wire) ? JSON.parse(wire.body) : wire) as SyncRequest;
+      } catch (err) {
+        return { status: 'error', message: err instanceof Error ? err.message : String(err) };
+      }
+      state.transactions = mergeRecords(state.transactions, data.transactions || []);
+      state.settlements = mergeRecords(state.settlements, data.settlements || []);
+      state.recurring = mergeRecords(state.recurring, data.recurring || []);
+      state.categories = mergeRecords(state.categories, data.categories || []);
+      state.goals = mergeRecords(state.goals, data.goals || []);
+      state.goalContributions = mergeRecords(state.goalContributions, data.goalContributions || []);
+      state.budgets = mergeBudgets(state.budgets, data.budgets || {});
+      state.settlementRules = pickWinner(state.settlementRules || undefined, data.settlementRules) || null;
+      state.partnerProfiles = pickWinner(state.partnerProfiles || undefined, data.partnerProfiles) || null;
+      state.household = pickWinner(state.household || undefined, data.household) || null;
+      state.categorization = pickWinner(state.categorization || undefined, data.categorization) || null;
+      return JSON.parse(JSON.stringify({ status: 'success', ...state }));
+    },
+  };
+};
+
+/** Apps Script deployments end in /exec; any other http(s) URL is taken to be a self-hosted server. */
+export const backendFor = (url: string): SyncBackend | null => {
+  const trimmed = url.trim();
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) return null;
+  if (/^https:\/\/script\.google(usercontent)?\.com\//i.test(trimmed) || /\/exec(\?|$)/.test(trimmed)) return createSheetsBackend(trimmed);
+  return createServerBackend(trimmed);
+};